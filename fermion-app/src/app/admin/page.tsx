@@ -0,0 +1,598 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+// The admin API only covers the rooms of the node it is called on
+const MEDIA_SERVER_URL = "http://localhost:3001";
+
+const SECRET_STORAGE_KEY = "fermion-admin-secret";
+const POLL_INTERVAL = 2000;
+// Samples kept per stream graph, two minutes at the poll interval
+const HISTORY_LENGTH = 60;
+
+// A segment older than this means the HLS output stalled (seconds)
+const SEGMENT_STALE_AFTER = 6;
+
+type Role = "host" | "publisher" | "viewer";
+
+type MediaKind = "audio" | "video";
+
+type PipelineAction = "start" | "stop" | "restart";
+
+type PipelineState = "stopped" | "starting" | "running" | "backoff";
+
+const PIPELINE_STATE_LABELS: Record<PipelineState, string> = {
+  stopped: "⚪ Stopped",
+  starting: "🟡 Starting",
+  running: "🟢 Running",
+  backoff: "🔴 Restarting after a crash",
+};
+
+// Responses of the admin API
+interface PipelineStats {
+  state: PipelineState;
+  running: boolean;
+  restarts: number;
+  crashes: number;
+  speed: number | null;
+  fps: number | null;
+  lastSegmentAt: number | null;
+}
+
+interface RoomInfo {
+  id: string;
+  origin: boolean;
+  settings: { locked: boolean; publisherLimit: number | null };
+  peerCount: number;
+  pipeline: PipelineStats;
+  lastSegmentAge: number | null;
+}
+
+interface PeerInfo {
+  peerId: string;
+  name: string;
+  role: Role;
+  userId: string;
+  connected: boolean;
+  transports: { id: string; iceState: string; dtlsState: string }[];
+  producers: {
+    producerId: string;
+    source: string;
+    kind: MediaKind;
+    paused: boolean;
+  }[];
+  consumers: { id: string; producerId: string; kind: MediaKind; paused: boolean }[];
+}
+
+interface RoomDetails extends RoomInfo {
+  peers: PeerInfo[];
+}
+
+interface StreamStats {
+  producerId: string;
+  peerId: string;
+  kind: MediaKind;
+  ssrc: number;
+  rid: string | null;
+  bitrate: number;
+  packetsLost: number;
+  fractionLost: number;
+  score: number;
+}
+
+// Samples of one stream, oldest first
+interface StreamHistory {
+  latest: StreamStats;
+  bitrates: number[];
+  losses: number[];
+}
+
+class AdminApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+  }
+}
+
+async function adminRequest<T>(
+  secret: string,
+  path: string,
+  init?: { method: string; body?: unknown }
+): Promise<T> {
+  const response = await fetch(`${MEDIA_SERVER_URL}/admin${path}`, {
+    method: init?.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${secret}`,
+      ...(init?.body !== undefined ? { "Content-Type": "application/json" } : {}),
+    },
+    body: init?.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: null }));
+    throw new AdminApiError(
+      error ?? `Request failed with status ${response.status}`,
+      response.status
+    );
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+const streamKey = (stream: StreamStats) => `${stream.producerId}:${stream.ssrc}`;
+
+function appendSample(values: number[], value: number): number[] {
+  return [...values, value].slice(-HISTORY_LENGTH);
+}
+
+function formatBitrate(bitrate: number): string {
+  return bitrate >= 1000000
+    ? `${(bitrate / 1000000).toFixed(1)} Mbps`
+    : `${Math.round(bitrate / 1000)} kbps`;
+}
+
+// Custom hook for calling a callback now and then every interval
+function usePolling(callback: () => Promise<void>, enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    callback();
+    const interval = setInterval(callback, POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [callback, enabled]);
+}
+
+// Sparkline Component
+interface SparklineProps {
+  values: number[];
+  // Upper end of the scale; the largest value by default
+  max?: number;
+  color: string;
+}
+
+function Sparkline({ values, max, color }: SparklineProps) {
+  const width = 240;
+  const height = 48;
+  const top = Math.max(max ?? Math.max(...values), Number.EPSILON);
+  const points = values
+    .map((value, index) => {
+      const x = (index / (HISTORY_LENGTH - 1)) * width;
+      const y = height - (Math.min(value, top) / top) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      className="bg-gray-50 border border-gray-200 rounded"
+    >
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+// Secret Form Component
+interface SecretFormProps {
+  error: string | null;
+  onSubmit: (secret: string) => void;
+}
+
+function SecretForm({ error, onSubmit }: SecretFormProps) {
+  const [value, setValue] = useState("");
+
+  return (
+    <form
+      className="flex flex-col items-center gap-4"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSubmit(value);
+      }}
+    >
+      <p className="text-gray-600">
+        Enter the server&apos;s <code className="bg-gray-100 px-2 py-1 rounded">ADMIN_SECRET</code>
+      </p>
+      <input
+        type="password"
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        className="border border-gray-300 p-2 rounded-md w-72"
+      />
+      <button
+        type="submit"
+        className="bg-blue-500 hover:bg-blue-600 text-white p-2 rounded-md cursor-pointer"
+      >
+        Sign in
+      </button>
+      {error && <p className="text-red-600">{error}</p>}
+    </form>
+  );
+}
+
+// Room List Component
+interface RoomListProps {
+  rooms: RoomInfo[];
+  selectedRoomId: string | null;
+  onSelect: (roomId: string) => void;
+}
+
+function RoomList({ rooms, selectedRoomId, onSelect }: RoomListProps) {
+  if (rooms.length === 0) {
+    return <p className="text-gray-500">No live rooms</p>;
+  }
+
+  return (
+    <ul className="flex flex-col gap-2">
+      {rooms.map((room) => (
+        <li key={room.id}>
+          <button
+            onClick={() => onSelect(room.id)}
+            className={`w-full text-left p-3 rounded-md border cursor-pointer ${
+              room.id === selectedRoomId
+                ? "border-blue-500 bg-blue-50"
+                : "border-gray-200 hover:bg-gray-50"
+            }`}
+          >
+            <div className="font-semibold">{room.id}</div>
+            <div className="text-sm text-gray-600">
+              {room.peerCount} peers ·{" "}
+              {room.origin ? PIPELINE_STATE_LABELS[room.pipeline.state] : "cascaded"}
+              {room.settings.locked && " · 🔒"}
+            </div>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Pipeline Panel Component
+interface PipelinePanelProps {
+  room: RoomInfo;
+  onAction: (action: PipelineAction) => void;
+}
+
+function PipelinePanel({ room, onAction }: PipelinePanelProps) {
+  const { pipeline, lastSegmentAge } = room;
+  const stale = lastSegmentAge === null || lastSegmentAge > SEGMENT_STALE_AFTER;
+
+  if (!room.origin) {
+    return (
+      <p className="text-gray-600">
+        This node cascades the room from its origin, which runs its FFmpeg pipeline.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-6 text-sm text-gray-700">
+        <span>{PIPELINE_STATE_LABELS[pipeline.state]}</span>
+        <span>Restarts: {pipeline.restarts}</span>
+        <span>Crashes: {pipeline.crashes}</span>
+        <span>FPS: {pipeline.fps ?? "–"}</span>
+        <span>Speed: {pipeline.speed !== null ? `${pipeline.speed}x` : "–"}</span>
+        <span className={stale ? "text-red-600 font-semibold" : "text-green-600"}>
+          Last segment:{" "}
+          {lastSegmentAge !== null ? `${lastSegmentAge.toFixed(1)} s ago` : "none yet"}
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onAction("start")}
+          disabled={pipeline.running}
+          className="bg-green-500 hover:bg-green-600 text-white text-sm p-2 rounded-md cursor-pointer disabled:opacity-50"
+        >
+          Start
+        </button>
+        <button
+          onClick={() => onAction("restart")}
+          className="bg-blue-500 hover:bg-blue-600 text-white text-sm p-2 rounded-md cursor-pointer"
+        >
+          Restart pipeline
+        </button>
+        <button
+          onClick={() => onAction("stop")}
+          disabled={!pipeline.running}
+          className="bg-red-500 hover:bg-red-600 text-white text-sm p-2 rounded-md cursor-pointer disabled:opacity-50"
+        >
+          Stop
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Participant Table Component
+interface ParticipantTableProps {
+  peers: PeerInfo[];
+  onMute: (peerId: string) => void;
+  onKick: (peerId: string) => void;
+}
+
+function ParticipantTable({ peers, onMute, onKick }: ParticipantTableProps) {
+  if (peers.length === 0) {
+    return <p className="text-gray-500">No participants</p>;
+  }
+
+  return (
+    <table className="w-full text-sm text-left">
+      <thead className="text-gray-500 border-b border-gray-200">
+        <tr>
+          <th className="py-2">Name</th>
+          <th>Role</th>
+          <th>Connection</th>
+          <th>Publishing</th>
+          <th>Consumers</th>
+          <th />
+        </tr>
+      </thead>
+      <tbody>
+        {peers.map((peer) => (
+          <tr key={peer.peerId} className="border-b border-gray-100">
+            <td className="py-2">
+              <div className="font-medium">{peer.name}</div>
+              <div className="text-xs text-gray-500">{peer.peerId}</div>
+            </td>
+            <td>{peer.role}</td>
+            <td>
+              {peer.connected ? "🟢" : "🟠 reconnecting"}
+              {peer.transports.map((transport) => (
+                <div key={transport.id} className="text-xs text-gray-500">
+                  ICE {transport.iceState}, DTLS {transport.dtlsState}
+                </div>
+              ))}
+            </td>
+            <td>
+              {peer.producers.length === 0
+                ? "–"
+                : peer.producers
+                    .map((producer) => `${producer.source}${producer.paused ? " (muted)" : ""}`)
+                    .join(", ")}
+            </td>
+            <td>{peer.consumers.length}</td>
+            <td>
+              <div className="flex gap-2 justify-end">
+                <button
+                  onClick={() => onMute(peer.peerId)}
+                  disabled={peer.producers.every((producer) => producer.paused)}
+                  className="bg-gray-500 hover:bg-gray-600 text-white text-sm p-1 rounded-md cursor-pointer disabled:opacity-50"
+                >
+                  Mute
+                </button>
+                <button
+                  onClick={() => onKick(peer.peerId)}
+                  className="bg-red-500 hover:bg-red-600 text-white text-sm p-1 rounded-md cursor-pointer"
+                >
+                  Kick
+                </button>
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Stream Graphs Component
+interface StreamGraphsProps {
+  streams: StreamHistory[];
+  peers: PeerInfo[];
+}
+
+function StreamGraphs({ streams, peers }: StreamGraphsProps) {
+  if (streams.length === 0) {
+    return <p className="text-gray-500">Nobody publishes</p>;
+  }
+
+  const peerName = (peerId: string) =>
+    peers.find((peer) => peer.peerId === peerId)?.name ?? peerId;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {streams.map(({ latest, bitrates, losses }) => (
+        <div key={streamKey(latest)} className="border border-gray-200 rounded-md p-3">
+          <div className="font-medium">
+            {peerName(latest.peerId)} · {latest.kind}
+            {latest.rid && ` · ${latest.rid}`}
+          </div>
+          <div className="text-xs text-gray-500 mb-2">
+            {formatBitrate(latest.bitrate)} · {latest.packetsLost} packets lost ·
+            score {latest.score}
+          </div>
+          <div className="flex flex-col gap-1 text-xs text-gray-500">
+            <span>Bitrate</span>
+            <Sparkline values={bitrates} color="#3b82f6" />
+            <span>Loss ({(latest.fractionLost * 100).toFixed(1)}%)</span>
+            <Sparkline values={losses} max={0.1} color="#ef4444" />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Main Admin Page Component
+export default function AdminPage() {
+  const [secret, setSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rooms, setRooms] = useState<RoomInfo[]>([]);
+  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+  const [room, setRoom] = useState<RoomDetails | null>(null);
+  const [streams, setStreams] = useState<Map<string, StreamHistory>>(new Map());
+
+  // Read after mounting, as sessionStorage does not exist on the server
+  useEffect(() => {
+    setSecret(sessionStorage.getItem(SECRET_STORAGE_KEY));
+  }, []);
+
+  const signIn = (value: string) => {
+    sessionStorage.setItem(SECRET_STORAGE_KEY, value);
+    setError(null);
+    setSecret(value);
+  };
+
+  const handleError = useCallback((err: unknown) => {
+    if (err instanceof AdminApiError && err.status === 401) {
+      sessionStorage.removeItem(SECRET_STORAGE_KEY);
+      setSecret(null);
+    }
+    setError((err as Error).message);
+  }, []);
+
+  const selectRoom = (roomId: string) => {
+    setSelectedRoomId(roomId);
+    setRoom(null);
+    setStreams(new Map());
+  };
+
+  const pollRooms = useCallback(async () => {
+    if (!secret) return;
+
+    try {
+      setRooms(await adminRequest<RoomInfo[]>(secret, "/rooms"));
+    } catch (err) {
+      handleError(err);
+    }
+  }, [secret, handleError]);
+
+  const pollRoom = useCallback(async () => {
+    if (!secret || !selectedRoomId) return;
+
+    const path = `/rooms/${encodeURIComponent(selectedRoomId)}`;
+    try {
+      const [details, latest] = await Promise.all([
+        adminRequest<RoomDetails>(secret, path),
+        adminRequest<StreamStats[]>(secret, `${path}/streams`),
+      ]);
+
+      setRoom(details);
+      // Streams that ended drop out of the graphs
+      setStreams((previous) => {
+        const next = new Map<string, StreamHistory>();
+        latest.forEach((stream) => {
+          const history = previous.get(streamKey(stream));
+          next.set(streamKey(stream), {
+            latest: stream,
+            bitrates: appendSample(history?.bitrates ?? [], stream.bitrate),
+            losses: appendSample(history?.losses ?? [], stream.fractionLost),
+          });
+        });
+        return next;
+      });
+      setError(null);
+    } catch (err) {
+      // The room closed
+      if (err instanceof AdminApiError && err.status === 404) {
+        setSelectedRoomId(null);
+        setRoom(null);
+        return;
+      }
+      handleError(err);
+    }
+  }, [secret, selectedRoomId, handleError]);
+
+  usePolling(pollRooms, secret !== null);
+  usePolling(pollRoom, secret !== null && selectedRoomId !== null);
+
+  // Runs an action on the selected room and refreshes it right away
+  const runAction = async (path: string, init: { method: string; body?: unknown }) => {
+    if (!secret || !selectedRoomId) return;
+
+    try {
+      await adminRequest(secret, `/rooms/${encodeURIComponent(selectedRoomId)}${path}`, init);
+      await pollRoom();
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const kickPeer = (peerId: string) => {
+    const reason = window.prompt("Reason for the kick (optional)");
+    if (reason === null) return;
+
+    runAction(`/peers/${encodeURIComponent(peerId)}`, {
+      method: "DELETE",
+      body: { reason: reason || undefined },
+    });
+  };
+
+  if (!secret) {
+    return (
+      <div className="flex flex-col items-center justify-center h-screen gap-4">
+        <h1 className="text-2xl font-bold">Admin</h1>
+        <SecretForm error={error} onSubmit={signIn} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6 p-8 min-h-screen">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Admin</h1>
+        <button
+          onClick={() => {
+            sessionStorage.removeItem(SECRET_STORAGE_KEY);
+            setSecret(null);
+          }}
+          className="bg-gray-500 hover:bg-gray-600 text-white text-sm p-2 rounded-md cursor-pointer"
+        >
+          Sign out
+        </button>
+      </div>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      <div className="flex gap-8">
+        <aside className="w-64 shrink-0">
+          <h2 className="text-lg font-semibold mb-2">Rooms</h2>
+          <RoomList
+            rooms={rooms}
+            selectedRoomId={selectedRoomId}
+            onSelect={selectRoom}
+          />
+        </aside>
+
+        {room ? (
+          <main className="flex flex-col gap-8 flex-1">
+            <section>
+              <h2 className="text-lg font-semibold mb-2">Pipeline</h2>
+              <PipelinePanel
+                room={room}
+                onAction={(action) =>
+                  runAction("/pipeline", { method: "POST", body: { action } })
+                }
+              />
+            </section>
+
+            <section>
+              <h2 className="text-lg font-semibold mb-2">
+                Participants ({room.peers.length})
+              </h2>
+              <ParticipantTable
+                peers={room.peers}
+                onMute={(peerId) =>
+                  runAction(`/peers/${encodeURIComponent(peerId)}/mute`, {
+                    method: "POST",
+                    body: {},
+                  })
+                }
+                onKick={kickPeer}
+              />
+            </section>
+
+            <section>
+              <h2 className="text-lg font-semibold mb-2">Streams</h2>
+              <StreamGraphs streams={[...streams.values()]} peers={room.peers} />
+            </section>
+          </main>
+        ) : (
+          <p className="text-gray-500">
+            {selectedRoomId ? "Loading room..." : "Select a room"}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,12 @@ export default function Home() {
       >
         Watch Stream
       </Link>
+      <Link
+        href="/admin"
+        className="text-lg text-gray-500 cursor-pointer hover:text-gray-700"
+      >
+        Admin
+      </Link>
     </div>
   );
 }
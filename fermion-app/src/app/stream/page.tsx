@@ -1,25 +1,308 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { io, Socket } from "socket.io-client";
 import * as mediasoupClient from "mediasoup-client";
 import { types } from "mediasoup-client";
 
-export default function StreamPage() {
+// Any node of the media server cluster; it names the node to join a room on
+const MEDIA_SERVER_URL = "http://localhost:3001";
+const DEFAULT_ROOM_ID = "default";
+
+// Three simulcast layers of the camera: quarter, half and full resolution
+const SIMULCAST_ENCODINGS: types.RtpEncodingParameters[] = [
+  { rid: "r0", scaleResolutionDownBy: 4, maxBitrate: 150000 },
+  { rid: "r1", scaleResolutionDownBy: 2, maxBitrate: 500000 },
+  { rid: "r2", scaleResolutionDownBy: 1, maxBitrate: 1500000 },
+];
+
+// VP9 or AV1 with three spatial and three temporal layers in a single stream
+const SVC_ENCODINGS: types.RtpEncodingParameters[] = [
+  { scalabilityMode: "L3T3_KEY", maxBitrate: 1500000 },
+];
+const SVC_CODECS = ["vp9", "av1"];
+
+// Screen content is sent as a single high-resolution stream
+const SCREEN_ENCODINGS: types.RtpEncodingParameters[] = [
+  { maxBitrate: 2500000, maxFramerate: 15 },
+];
+
+// Forward error correction, and no packets during silence
+const AUDIO_CODEC_OPTIONS: types.ProducerCodecOptions = {
+  opusFec: true,
+  opusDtx: true,
+};
+
+// ICE restarts of a transport that keeps failing before it is given up
+const MAX_ICE_RESTARTS = 3;
+
+type ProducerSource = "camera" | "microphone" | "screen";
+
+type Role = "host" | "publisher" | "viewer";
+
+interface JoinedEvent {
+  peerId: string;
+  role: Role;
+  // The server kept our transports and producers from before a reconnect
+  resumed: boolean;
+  resumeToken: string;
+}
+
+// What the server needs to resume our peer after a reconnect
+interface Session {
+  peerId: string;
+  resumeToken: string;
+}
+
+interface RoomSettings {
+  locked: boolean;
+  publisherLimit: number | null;
+}
+
+interface RemoteStream {
+  // ID of the remote producer
+  id: string;
+  consumerId: string;
+  peerId: string;
+  name: string;
+  stream: MediaStream;
+  kind: string;
+  source: ProducerSource;
+  paused: boolean;
+  // Spatial layer currently received, null while nothing is received
+  spatialLayer: number | null;
+}
+
+interface ProducerEvent {
+  producerId: string;
+  peerId: string;
+  kind: string;
+  source: ProducerSource;
+}
+
+interface ProducerInfo {
+  producerId: string;
+  peerId: string;
+  name: string;
+  source: ProducerSource;
+}
+
+// Remote Video Component
+interface RemoteVideoProps {
+  remoteStream: RemoteStream;
+  socket: Socket;
+  // Shows the moderation buttons
+  isHost: boolean;
+}
+
+/**
+ * Sends a host-only moderation command and logs a refusal.
+ */
+function moderate(socket: Socket, command: string, data: object) {
+  socket.emit(command, data, (response?: { error: string }) => {
+    if (response?.error) {
+      console.error(`${command} failed:`, response.error);
+    }
+  });
+}
+
+/**
+ * Asks the server for new ICE parameters of a transport and restarts ICE
+ * with them.
+ */
+function restartIce(socket: Socket, transport: types.Transport) {
+  socket.emit(
+    "restartIce",
+    { transportId: transport.id },
+    async (
+      response: { iceParameters: types.IceParameters } | { error: string }
+    ) => {
+      if ("error" in response) {
+        console.error("Failed to restart ICE:", response.error);
+        return;
+      }
+      await transport.restartIce({ iceParameters: response.iceParameters });
+    }
+  );
+}
+
+/**
+ * Restarts ICE when a transport's connection drops or fails. Once
+ * MAX_ICE_RESTARTS restarts did not get it connected again, a failed
+ * connection is given up.
+ */
+function monitorTransport(
+  socket: Socket,
+  transport: types.Transport,
+  onGiveUp: () => void
+) {
+  let restarts = 0;
+
+  transport.on("connectionstatechange", (state) => {
+    console.log(`Transport ${transport.id} is ${state}`);
+
+    if (state === "connected") {
+      restarts = 0;
+    } else if (state === "disconnected" || state === "failed") {
+      if (restarts < MAX_ICE_RESTARTS) {
+        restarts++;
+        restartIce(socket, transport);
+      } else if (state === "failed") {
+        onGiveUp();
+      }
+    }
+  });
+}
+
+/**
+ * Session of this tab's peer from its last "joined" event. It lives as long
+ * as the tab, so a reload resumes the session as well.
+ */
+function getSession(roomId: string): Session | null {
+  try {
+    return JSON.parse(sessionStorage.getItem(`session:${roomId}`) ?? "null");
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(roomId: string, session: Session) {
+  sessionStorage.setItem(`session:${roomId}`, JSON.stringify(session));
+}
+
+function RemoteVideo({ remoteStream, socket, isHost }: RemoteVideoProps) {
+  const { consumerId, peerId, name, stream, source, paused, spatialLayer } =
+    remoteStream;
+  const isScreen = source === "screen";
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Report the tile size so that the server picks a fitting layer
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      socket.emit(
+        "setConsumerTileSize",
+        {
+          consumerId,
+          width: Math.round(width * window.devicePixelRatio),
+          height: Math.round(height * window.devicePixelRatio),
+        },
+        (response?: { error: string }) => {
+          if (response?.error) {
+            console.error("Failed to report tile size:", response.error);
+          }
+        }
+      );
+    });
+
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, [consumerId, socket]);
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-4">
+      <h3 className="text-2xl font-bold text-green-500">
+        {isScreen ? `🖥️ ${name}'s screen` : name}
+      </h3>
+      <div className="relative">
+        <video
+          ref={(el) => {
+            videoRef.current = el;
+            if (el) el.srcObject = stream;
+          }}
+          autoPlay
+          style={{
+            width: isScreen ? "600px" : "300px",
+            border: "2px solid green",
+          }}
+        />
+        {paused && (
+          <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-white">
+            📹 {name}
+          </div>
+        )}
+      </div>
+      {spatialLayer !== null && (
+        <p className="text-sm text-gray-500">Layer {spatialLayer}</p>
+      )}
+      {isHost && !isScreen && (
+        <div className="flex gap-2">
+          <button
+            className="bg-gray-500 hover:bg-gray-600 text-white text-sm p-1 rounded-md cursor-pointer"
+            onClick={() => moderate(socket, "mutePeer", { peerId, kind: "audio" })}
+          >
+            Mute
+          </button>
+          <button
+            className="bg-gray-500 hover:bg-gray-600 text-white text-sm p-1 rounded-md cursor-pointer"
+            onClick={() => moderate(socket, "mutePeer", { peerId, kind: "video" })}
+          >
+            Stop Video
+          </button>
+          <button
+            className="bg-gray-500 hover:bg-gray-600 text-white text-sm p-1 rounded-md cursor-pointer"
+            onClick={() => moderate(socket, "unmutePeer", { peerId })}
+          >
+            Allow Unmute
+          </button>
+          <button
+            className="bg-red-500 hover:bg-red-600 text-white text-sm p-1 rounded-md cursor-pointer"
+            onClick={() => moderate(socket, "kickPeer", { peerId })}
+          >
+            Kick
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StreamRoom() {
+  const searchParams = useSearchParams();
+  const roomId = searchParams.get("room") || DEFAULT_ROOM_ID;
+  // ?svc=1 sends VP9 SVC instead of simulcast
+  const useSvc = searchParams.get("svc") === "1";
+  // ?codec=vp8, vp9, h264 or av1 picks the video codec; by default it is
+  // the first one in the server's MEDIASOUP_CODECS the browser supports
+  const preferredCodec = searchParams.get("codec")?.toLowerCase();
+  // Signed token with the room and role, required when the server has
+  // AUTH_SECRET set
+  const token = searchParams.get("token");
+
   // Refs and State
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const [socket, setSocket] = useState<Socket | null>(null);
   const [device, setDevice] = useState<types.Device | null>(null);
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<Role | null>(null);
+  // Our peer ID on the server, which stays the same across reconnects
+  const peerIdRef = useRef<string | null>(null);
+  const [roomSettings, setRoomSettings] = useState<RoomSettings>({
+    locked: false,
+    publisherLimit: null,
+  });
+  const [publisherLimitInput, setPublisherLimitInput] = useState("");
+  // Why the server refused or ended the session
+  const [notice, setNotice] = useState<string | null>(null);
 
-  const [remoteStreams, setRemoteStreams] = useState<
-    { id: string; stream: MediaStream; kind: string }[]
-  >([]);
+  const [remoteStreams, setRemoteStreams] = useState<RemoteStream[]>([]);
 
-  // Track which producers we're already consuming to prevent duplicates
-  const [consumingProducers, setConsumingProducers] = useState<Set<string>>(
-    new Set()
+  // Receive transport and consumer of every consumed producer
+  const consumersRef = useRef(
+    new Map<
+      string,
+      { peerId: string; transport: types.Transport; consumer: types.Consumer }
+    >()
   );
 
+  // Producers we're already consuming, to prevent duplicates. A ref, as the
+  // socket handlers that consume outlive a render
+  const consumingProducersRef = useRef(new Set<string>());
+
   // Camera and microphone state
   const [isCameraOn, setIsCameraOn] = useState(true);
   const [isMicOn, setIsMicOn] = useState(true);
@@ -31,6 +314,16 @@ export default function StreamPage() {
     null
   );
 
+  // Kinds a host muted; the server refuses to resume them until a host
+  // allows it
+  const hostMutedKindsRef = useRef(new Set<types.MediaKind>());
+
+  // Screen share, with system audio if the browser captured it
+  const sendTransportRef = useRef<types.Transport | null>(null);
+  const [screenProducers, setScreenProducers] = useState<types.Producer[]>(
+    []
+  );
+
   /**
    * Main function to connect to the server and start producing video.
    */
@@ -40,10 +333,46 @@ export default function StreamPage() {
       return;
     }
 
-    // --- 1. Connect to the signaling server ---
-    const socketIo = io("http://localhost:3001");
+    // --- 1. Connect to the signaling server of the room's node ---
+    let nodeUrl = MEDIA_SERVER_URL;
+    try {
+      const response = await fetch(
+        `${MEDIA_SERVER_URL}/signaling/${encodeURIComponent(roomId)}`
+      );
+      if (response.ok) {
+        nodeUrl = (await response.json()).url;
+      }
+    } catch (error) {
+      console.warn("Failed to look up the room's node:", error);
+    }
+
+    // Read on every connect: a resumed session keeps its transports on the
+    // server only while this page still holds them
+    const socketIo = io(nodeUrl, {
+      query: { roomId, name },
+      auth: (callback) =>
+        callback({
+          ...getSession(roomId),
+          hasTransports: hasTransports(),
+          ...(token ? { token } : {}),
+        }),
+    });
+
+    socketIo.on("connect_error", (error) => {
+      console.error("Failed to join room:", error.message);
+      setNotice(`Failed to join room: ${error.message}`);
+    });
 
-    socketIo.on("connect", async () => {
+    // Sent right after every connect, so these cannot wait for the effects
+    socketIo.on("joined", ({ peerId, role, resumeToken }: JoinedEvent) => {
+      peerIdRef.current = peerId;
+      saveSession(roomId, { peerId, resumeToken });
+      setRole(role);
+    });
+    socketIo.on("room-updated", setRoomSettings);
+
+    // Reconnects are handled by the "joined" effect below
+    socketIo.once("connect", async () => {
       console.log("Connected to signaling server with ID:", socketIo.id);
       setSocket(socketIo);
 
@@ -58,7 +387,8 @@ export default function StreamPage() {
             setDevice(newDevice);
 
             // --- 3. Create a "Send" Transport ---
-            createSendTransport(socketIo, newDevice);
+            const transport = await createSendTransport(socketIo, newDevice);
+            startProducing(transport, newDevice);
           } catch (error) {
             console.error("Failed to load device:", error);
           }
@@ -67,92 +397,241 @@ export default function StreamPage() {
     });
   };
 
+  const hasTransports = () =>
+    sendTransportRef.current !== null || consumersRef.current.size > 0;
+
   /**
    * Creates the client-side transport for sending media.
    */
   const createSendTransport = (
     socketInstance: Socket,
     deviceInstance: types.Device
-  ) => {
-    socketInstance.emit(
-      "createWebRtcTransport",
-      { isSender: true },
-      async (serverTransportOptions: types.TransportOptions) => {
-        console.log("Server transport options received.");
-        const transport = deviceInstance.createSendTransport(
-          serverTransportOptions
-        );
+  ) =>
+    new Promise<types.Transport>((resolve) => {
+      socketInstance.emit(
+        "createWebRtcTransport",
+        { isSender: true },
+        async (serverTransportOptions: types.TransportOptions) => {
+          console.log("Server transport options received.");
+          const transport = deviceInstance.createSendTransport(
+            serverTransportOptions
+          );
 
-        // Event: 'connect' - fired when the transport is successfully connected
-        transport.on(
-          "connect",
-          async ({ dtlsParameters }, callback, errback) => {
-            console.log('Transport "connect" event');
-            socketInstance.emit(
-              "connectWebRtcTransport",
-              { transportId: transport.id, dtlsParameters },
-              () => {
-                callback();
-              }
-            );
-          }
-        );
+          // Event: 'connect' - fired when the transport is successfully connected
+          transport.on(
+            "connect",
+            async ({ dtlsParameters }, callback) => {
+              console.log('Transport "connect" event');
+              socketInstance.emit(
+                "connectWebRtcTransport",
+                { transportId: transport.id, dtlsParameters },
+                () => {
+                  callback();
+                }
+              );
+            }
+          );
 
-        // Event: 'produce' - fired when a new track is ready to be sent
-        transport.on(
-          "produce",
-          async ({ kind, rtpParameters }, callback, errback) => {
-            console.log(`Transport "produce" event for kind: ${kind}`);
-            socketInstance.emit(
-              "produce",
-              { transportId: transport.id, kind, rtpParameters },
-              ({ id }: { id: string }) => {
-                callback({ id });
-              }
-            );
-          }
+          // Event: 'produce' - fired when a new track is ready to be sent
+          transport.on(
+            "produce",
+            async ({ kind, rtpParameters, appData }, callback, errback) => {
+              console.log(`Transport "produce" event for kind: ${kind}`);
+              socketInstance.emit(
+                "produce",
+                { transportId: transport.id, kind, rtpParameters, appData },
+                (response: { id: string } | { error: string }) => {
+                  if ("error" in response) {
+                    errback(new Error(response.error));
+                    return;
+                  }
+                  callback({ id: response.id });
+                }
+              );
+            }
+          );
+
+          monitorTransport(socketInstance, transport, () => {
+            setNotice("Lost the connection for sending media");
+          });
+
+          sendTransportRef.current = transport;
+          resolve(transport);
+        }
+      );
+    });
+
+  /**
+   * Simulcast by default; SVC if requested and VP9 or AV1 is supported by
+   * the router and the browser.
+   */
+  const getVideoEncoding = useCallback(
+    (
+      deviceInstance: types.Device
+    ): Pick<types.ProducerOptions, "codec" | "encodings" | "codecOptions"> => {
+      const findCodec = (name: string) =>
+        deviceInstance.rtpCapabilities.codecs?.find(
+          (codec) => codec.mimeType.toLowerCase() === `video/${name}`
         );
 
-        // After creating the transport, get media and produce
-        startProducing(transport);
+      const codec = preferredCodec ? findCodec(preferredCodec) : undefined;
+      if (preferredCodec && !codec) {
+        console.warn(`Codec ${preferredCodec} is not available, using the default`);
       }
-    );
-  };
+
+      if (useSvc) {
+        const svcCodec =
+          codec && SVC_CODECS.includes(preferredCodec ?? "")
+            ? codec
+            : findCodec("vp9");
+
+        if (svcCodec) {
+          return { codec: svcCodec, encodings: SVC_ENCODINGS };
+        }
+      }
+
+      return {
+        codec,
+        encodings: SIMULCAST_ENCODINGS,
+        codecOptions: { videoGoogleStartBitrate: 1000 },
+      };
+    },
+    [preferredCodec, useSvc]
+  );
 
   /**
    * Gets user media and starts the producer.
    */
-  const startProducing = async (transport: types.Transport) => {
+  const startProducing = useCallback(
+    async (transport: types.Transport, deviceInstance: types.Device) => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: true,
+          audio: true,
+        });
+
+        setLocalStream(stream);
+
+        if (localVideoRef.current) {
+          localVideoRef.current.srcObject = stream;
+        }
+
+        const videoTrack = stream.getVideoTracks()[0];
+        const audioTrack = stream.getAudioTracks()[0];
+
+        const vProducer = await transport.produce({
+          track: videoTrack,
+          ...getVideoEncoding(deviceInstance),
+          appData: { source: "camera" },
+        });
+        const aProducer = await transport.produce({
+          track: audioTrack,
+          codecOptions: AUDIO_CODEC_OPTIONS,
+          appData: { source: "microphone" },
+        });
+
+        // Store producers in state for later control
+        setVideoProducer(vProducer);
+        setAudioProducer(aProducer);
+
+        console.log("Produced video and audio tracks", transport.id);
+
+        return { videoProducer: vProducer, audioProducer: aProducer };
+      } catch (error) {
+        console.error("Failed to get user media or produce:", error);
+      }
+    },
+    [getVideoEncoding]
+  );
+
+  /**
+   * Shares a screen, window or tab next to the camera. Browsers that can
+   * capture system or tab audio add it as a second screen producer.
+   */
+  const startScreenShare = async () => {
+    const transport = sendTransportRef.current;
+    if (!transport || screenProducers.length > 0) return;
+
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
+      const stream = await navigator.mediaDevices.getDisplayMedia({
         video: true,
         audio: true,
       });
 
-      setLocalStream(stream);
-
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = stream;
-      }
-
       const videoTrack = stream.getVideoTracks()[0];
       const audioTrack = stream.getAudioTracks()[0];
+      videoTrack.contentHint = "detail";
 
-      const vProducer = await transport.produce({ track: videoTrack });
-      const aProducer = await transport.produce({ track: audioTrack });
+      const producers = [
+        await transport.produce({
+          track: videoTrack,
+          encodings: SCREEN_ENCODINGS,
+          appData: { source: "screen" },
+        }),
+      ];
 
-      // Store producers in state for later control
-      setVideoProducer(vProducer);
-      setAudioProducer(aProducer);
+      if (audioTrack) {
+        producers.push(
+          await transport.produce({
+            track: audioTrack,
+            appData: { source: "screen" },
+          })
+        );
+      }
 
-      console.log("Produced video and audio tracks", transport.id);
+      // Sharing ended through the browser's own stop button
+      videoTrack.addEventListener("ended", () => stopScreenShare(producers));
 
-      return { videoProducer: vProducer, audioProducer: aProducer };
+      setScreenProducers(producers);
+      console.log("Sharing screen", audioTrack ? "with audio" : "without audio");
     } catch (error) {
-      console.error("Failed to get user media or produce:", error);
+      console.error("Failed to share screen:", error);
     }
   };
 
+  const stopScreenShare = (producers: types.Producer[] = screenProducers) => {
+    producers.forEach((producer) => {
+      if (producer.closed) return;
+
+      producer.track?.stop();
+      producer.close();
+      socket?.emit(
+        "closeProducer",
+        { producerId: producer.id },
+        (response?: { error: string }) => {
+          if (response?.error) {
+            console.error("Failed to close producer:", response.error);
+          }
+        }
+      );
+    });
+
+    setScreenProducers([]);
+  };
+
+  /**
+   * Pauses or resumes a producer locally and on the server, so that other
+   * participants and the broadcast see the camera or microphone as off.
+   */
+  const setProducerPaused = (producer: types.Producer, paused: boolean) => {
+    if (paused) {
+      producer.pause();
+    } else {
+      producer.resume();
+    }
+
+    socket?.emit(
+      paused ? "pauseProducer" : "resumeProducer",
+      { producerId: producer.id },
+      (response?: { error: string }) => {
+        if (response?.error) {
+          console.error("Failed to update producer state:", response.error);
+          setNotice(response.error);
+        }
+      }
+    );
+  };
+
   /**
    * Toggle camera on/off
    */
@@ -165,12 +644,14 @@ export default function StreamPage() {
     if (isCameraOn) {
       // Turn off camera
       videoTrack.enabled = false;
-      videoProducer.pause();
+      setProducerPaused(videoProducer, true);
       setIsCameraOn(false);
+    } else if (hostMutedKindsRef.current.has("video")) {
+      setNotice("A host muted your video");
     } else {
       // Turn on camera
       videoTrack.enabled = true;
-      videoProducer.resume();
+      setProducerPaused(videoProducer, false);
       setIsCameraOn(true);
     }
   };
@@ -187,29 +668,59 @@ export default function StreamPage() {
     if (isMicOn) {
       // Turn off microphone
       audioTrack.enabled = false;
-      audioProducer.pause();
+      setProducerPaused(audioProducer, true);
       setIsMicOn(false);
+    } else if (hostMutedKindsRef.current.has("audio")) {
+      setNotice("A host muted your audio");
     } else {
       // Turn on microphone
       audioTrack.enabled = true;
-      audioProducer.resume();
+      setProducerPaused(audioProducer, false);
       setIsMicOn(true);
     }
   };
 
-  const consume = (producerId: string, remoteSocketId: string) => {
-    console.log("consume", producerId, remoteSocketId);
+  /**
+   * Closes the consumer of a remote producer and removes its tile.
+   */
+  const removeRemoteProducer = (producerId: string) => {
+    const consumed = consumersRef.current.get(producerId);
+    if (consumed) {
+      consumed.consumer.close();
+      consumed.transport.close();
+      consumersRef.current.delete(producerId);
+    }
+
+    consumingProducersRef.current.delete(producerId);
+    setRemoteStreams((prev) => prev.filter((stream) => stream.id !== producerId));
+  };
+
+  const setRemoteProducerPaused = (producerId: string, paused: boolean) => {
+    setRemoteStreams((prev) =>
+      prev.map((stream) =>
+        stream.id === producerId ? { ...stream, paused } : stream
+      )
+    );
+  };
+
+  const consume = (
+    producerId: string,
+    remotePeerId: string,
+    remoteName: string,
+    source: ProducerSource
+  ) => {
+    console.log("consume", producerId, remotePeerId);
     if (!device) return;
     if (!socket) return;
 
     // Check if we're already consuming this producer
-    if (consumingProducers.has(producerId)) {
+    if (consumingProducersRef.current.has(producerId)) {
       console.log("Already consuming producer:", producerId);
       return;
     }
 
     // Mark this producer as being consumed
-    setConsumingProducers((prev) => new Set([...prev, producerId]));
+    consumingProducersRef.current.add(producerId);
     socket.emit(
       "createWebRtcTransport",
       { isSender: false },
@@ -226,6 +737,10 @@ export default function StreamPage() {
           );
         });
 
+        monitorTransport(socket, recvTransport, () => {
+          removeRemoteProducer(producerId);
+        });
+
         socket.emit(
           "consume",
           {
@@ -238,16 +753,13 @@ export default function StreamPage() {
             producerId: string;
             kind: string;
             rtpParameters: types.RtpParameters;
+            producerPaused?: boolean;
             error?: string;
           }) => {
             if (data.error) {
               console.error("Consume error", data.error);
               // Remove from consuming set on error
-              setConsumingProducers((prev) => {
-                const newSet = new Set(prev);
-                newSet.delete(producerId);
-                return newSet;
-              });
+              consumingProducersRef.current.delete(producerId);
               return;
             }
 
@@ -259,38 +771,41 @@ export default function StreamPage() {
                 rtpParameters: data.rtpParameters,
               });
 
+              consumersRef.current.set(producerId, {
+                peerId: remotePeerId,
+                transport: recvTransport,
+                consumer,
+              });
+
               // Resume the consumer
               socket.emit("resume", { consumerId: consumer.id }, () => {});
 
               // Attach to video/audio
-              const stream = new MediaStream([consumer.track]);
-              const streamId = `${remoteSocketId}-${data.kind}`;
+              const remoteStream: RemoteStream = {
+                id: producerId,
+                consumerId: consumer.id,
+                peerId: remotePeerId,
+                name: remoteName,
+                stream: new MediaStream([consumer.track]),
+                kind: data.kind,
+                source,
+                paused: data.producerPaused ?? false,
+                spatialLayer: null,
+              };
 
               setRemoteStreams((prev) => {
-                // More robust duplicate check - check by stream ID
+                // Replace a stream of the same producer instead of adding
+                // a second tile
                 const existingIndex = prev.findIndex(
-                  (item) => item.id === streamId
+                  (item) => item.id === producerId
                 );
                 if (existingIndex !== -1) {
-                  // Replace existing stream instead of ignoring
                   const newStreams = [...prev];
-                  newStreams[existingIndex] = {
-                    id: streamId,
-                    stream,
-                    kind: data.kind,
-                  };
+                  newStreams[existingIndex] = remoteStream;
                   return newStreams;
                 }
 
-                // Add new stream
-                return [
-                  ...prev,
-                  {
-                    id: streamId,
-                    stream,
-                    kind: data.kind,
-                  },
-                ];
+                return [...prev, remoteStream];
               });
               console.log(
                 "Consumed track",
@@ -301,11 +816,7 @@ export default function StreamPage() {
             } catch (error) {
               console.error("Failed to consume track:", error);
               // Remove from consuming set on error
-              setConsumingProducers((prev) => {
-                const newSet = new Set(prev);
-                newSet.delete(producerId);
-                return newSet;
-              });
+              consumingProducersRef.current.delete(producerId);
             }
           }
         );
@@ -317,77 +828,323 @@ export default function StreamPage() {
     if (!socket) return;
     console.log(socket.id);
 
-    const handleExistingProducers = (
-      producers: { producerId: string; socketId: string }[]
-    ) => {
+    const handleExistingProducers = (producers: ProducerInfo[]) => {
       console.log("existingProducers", producers);
-      producers.forEach(({ producerId, socketId }) => {
-        if (socketId === socket.id) return;
-        consume(producerId, socketId);
+      // After a resume, drop what closed while we were away; what we still
+      // consume is kept as it is
+      const producerIds = new Set(producers.map(({ producerId }) => producerId));
+      consumingProducersRef.current.forEach((producerId) => {
+        if (!producerIds.has(producerId)) {
+          removeRemoteProducer(producerId);
+        }
+      });
+
+      producers.forEach(({ producerId, peerId, name, source }) => {
+        if (peerId === peerIdRef.current) return;
+        consume(producerId, peerId, name, source);
       });
     };
 
     const handleNewProducer = ({
       producerId,
-      socketId,
+      peerId,
+      name,
+      source,
+    }: ProducerInfo) => {
+      console.log("new-producer", producerId, peerId, source);
+      consume(producerId, peerId, name, source);
+    };
+
+    const handlePeerJoined = ({ peerId }: { peerId: string }) => {
+      console.log("Peer joined:", peerId);
+    };
+
+    // The server keeps a peer's tiles for a grace period after it dropped
+    const handlePeerDisconnected = ({ peerId }: { peerId: string }) => {
+      console.log("Peer disconnected:", peerId);
+    };
+
+    const handlePeerReconnected = ({ peerId }: { peerId: string }) => {
+      console.log("Peer reconnected:", peerId);
+    };
+
+    // ICE, DTLS and SCTP states of our transports as the server sees them
+    const handleTransportState = ({
+      transportId,
+      iceState,
+      dtlsState,
     }: {
-      producerId: string;
-      socketId: string;
+      transportId: string;
+      iceState: string;
+      dtlsState: string;
     }) => {
-      console.log("new-producer", producerId, socketId);
-      consume(producerId, socketId);
+      console.log(`Server transport ${transportId}: ICE ${iceState}, DTLS ${dtlsState}`);
+    };
+
+    // Remove all tiles of a peer that left
+    const handlePeerLeft = ({ peerId }: { peerId: string }) => {
+      console.log("Peer left:", peerId);
+      consumersRef.current.forEach((consumed, producerId) => {
+        if (consumed.peerId === peerId) {
+          removeRemoteProducer(producerId);
+        }
+      });
+    };
+
+    const handleProducerClosed = ({ producerId, peerId }: ProducerEvent) => {
+      console.log("Producer closed:", producerId, peerId);
+      removeRemoteProducer(producerId);
+    };
+
+    const handleProducerPaused = ({ producerId }: ProducerEvent) => {
+      setRemoteProducerPaused(producerId, true);
+    };
+
+    const handleProducerResumed = ({ producerId }: ProducerEvent) => {
+      setRemoteProducerPaused(producerId, false);
     };
 
-    // Handle producer removal (when a peer disconnects)
-    const handleProducerClosed = ({
+    // The server closed one of our consumers, e.g. with its transport
+    const handleConsumerClosed = ({
+      consumerId,
       producerId,
-      socketId,
     }: {
+      consumerId: string;
       producerId: string;
-      socketId: string;
     }) => {
-      console.log("Producer closed:", producerId, socketId);
-      // Remove from consuming producers
-      setConsumingProducers((prev) => {
-        const newSet = new Set(prev);
-        newSet.delete(producerId);
-        return newSet;
-      });
-      // Remove related streams
-      setRemoteStreams((prev) =>
-        prev.filter((stream) => !stream.id.startsWith(socketId + "-"))
-      );
+      console.log("Consumer closed:", consumerId);
+      removeRemoteProducer(producerId);
     };
 
     socket.on("existingProducers", handleExistingProducers);
     socket.on("new-producer", handleNewProducer);
+    socket.on("peer-joined", handlePeerJoined);
+    socket.on("peer-left", handlePeerLeft);
     socket.on("producer-closed", handleProducerClosed);
+    socket.on("producer-paused", handleProducerPaused);
+    socket.on("producer-resumed", handleProducerResumed);
+    const handleConsumerLayersChanged = ({
+      consumerId,
+      spatialLayer,
+    }: {
+      consumerId: string;
+      spatialLayer: number | null;
+    }) => {
+      setRemoteStreams((prev) =>
+        prev.map((stream) =>
+          stream.consumerId === consumerId ? { ...stream, spatialLayer } : stream
+        )
+      );
+    };
+
+    // The room lost its media worker on the server; joining again
+    // recreates it, and the "joined" effect sets up our media again
+    const handleRoomClosed = ({
+      reason,
+      rejoin,
+    }: {
+      reason: string;
+      rejoin: boolean;
+    }) => {
+      setNotice(`The room was closed: ${reason}`);
+      if (rejoin) {
+        socket.once("disconnect", () => socket.connect());
+      }
+    };
+
+    // Removed by a host: stop sending and reset the page
+    const handleKicked = ({ reason }: { reason?: string }) => {
+      setNotice(
+        `You were removed from the room${reason ? `: ${reason}` : ""}`
+      );
+      sendTransportRef.current?.close();
+      socket.close();
+      setSocket(null);
+    };
+
+    socket.on("consumer-closed", handleConsumerClosed);
+    socket.on("consumer-layers-changed", handleConsumerLayersChanged);
+    socket.on("peer-disconnected", handlePeerDisconnected);
+    socket.on("peer-reconnected", handlePeerReconnected);
+    socket.on("transport-state", handleTransportState);
+    socket.on("room-closed", handleRoomClosed);
+    socket.on("kicked", handleKicked);
 
     // Cleanup function to remove listeners
     return () => {
       socket.off("existingProducers", handleExistingProducers);
       socket.off("new-producer", handleNewProducer);
+      socket.off("peer-joined", handlePeerJoined);
+      socket.off("peer-left", handlePeerLeft);
       socket.off("producer-closed", handleProducerClosed);
+      socket.off("producer-paused", handleProducerPaused);
+      socket.off("producer-resumed", handleProducerResumed);
+      socket.off("consumer-closed", handleConsumerClosed);
+      socket.off("consumer-layers-changed", handleConsumerLayersChanged);
+      socket.off("peer-disconnected", handlePeerDisconnected);
+      socket.off("peer-reconnected", handlePeerReconnected);
+      socket.off("transport-state", handleTransportState);
+      socket.off("room-closed", handleRoomClosed);
+      socket.off("kicked", handleKicked);
     };
   }, [socket, device]); // Adding device as dependency since consume() uses it
 
+  // A host paused our producers on the server; stop sending them as well
+  useEffect(() => {
+    if (!socket) return;
+
+    const handlePeerMuted = ({
+      peerId,
+      kind,
+      producerIds,
+    }: {
+      peerId: string;
+      kind: types.MediaKind | null;
+      producerIds: string[];
+    }) => {
+      if (peerId !== peerIdRef.current) return;
+
+      (kind ? [kind] : (["audio", "video"] as const)).forEach((mutedKind) =>
+        hostMutedKindsRef.current.add(mutedKind)
+      );
+
+      if (audioProducer && producerIds.includes(audioProducer.id)) {
+        localStream?.getAudioTracks().forEach((track) => (track.enabled = false));
+        audioProducer.pause();
+        setIsMicOn(false);
+      }
+      if (videoProducer && producerIds.includes(videoProducer.id)) {
+        localStream?.getVideoTracks().forEach((track) => (track.enabled = false));
+        videoProducer.pause();
+        setIsCameraOn(false);
+      }
+      screenProducers
+        .filter((producer) => producerIds.includes(producer.id))
+        .forEach((producer) => producer.pause());
+
+      setNotice("A host muted you");
+    };
+
+    const handlePeerUnmuted = ({
+      peerId,
+      kind,
+    }: {
+      peerId: string;
+      kind: types.MediaKind | null;
+    }) => {
+      if (peerId !== peerIdRef.current) return;
+
+      if (kind) {
+        hostMutedKindsRef.current.delete(kind);
+      } else {
+        hostMutedKindsRef.current.clear();
+      }
+      setNotice("A host allowed you to unmute");
+    };
+
+    socket.on("peer-muted", handlePeerMuted);
+    socket.on("peer-unmuted", handlePeerUnmuted);
+    return () => {
+      socket.off("peer-muted", handlePeerMuted);
+      socket.off("peer-unmuted", handlePeerUnmuted);
+    };
+  }, [socket, audioProducer, videoProducer, localStream, screenProducers]);
+
+  // After a network blip the socket reconnects with the same session ID.
+  // Within the grace period the server kept our transports, which only need
+  // an ICE restart; after it, they are created again. Closing the send
+  // transport stops the local tracks, so the camera is captured again and a
+  // screen share has to be started again by the user.
+  useEffect(() => {
+    if (!socket || !device) return;
+
+    const republish = async () => {
+      consumersRef.current.forEach(({ consumer, transport }) => {
+        consumer.close();
+        transport.close();
+      });
+      consumersRef.current.clear();
+      consumingProducersRef.current.clear();
+      setRemoteStreams([]);
+      sendTransportRef.current?.close();
+      setScreenProducers([]);
+      // The server forgot our session along with its mutes
+      hostMutedKindsRef.current.clear();
+
+      const transport = await createSendTransport(socket, device);
+      await startProducing(transport, device);
+      setIsCameraOn(true);
+      setIsMicOn(true);
+    };
+
+    const handleRejoined = ({ resumed }: JoinedEvent) => {
+      // The first join sets up the transports itself
+      if (!hasTransports()) return;
+
+      console.log(resumed ? "Session resumed" : "Session expired, rejoining");
+      if (resumed) {
+        if (sendTransportRef.current) {
+          restartIce(socket, sendTransportRef.current);
+        }
+        consumersRef.current.forEach(({ transport }) =>
+          restartIce(socket, transport)
+        );
+      } else {
+        setNotice(null);
+        republish().catch((error) => {
+          console.error("Failed to republish:", error);
+        });
+      }
+    };
+
+    socket.on("joined", handleRejoined);
+    return () => {
+      socket.off("joined", handleRejoined);
+    };
+  }, [socket, device, startProducing]);
+
   // Clean up when socket disconnects
   useEffect(() => {
     if (!socket) {
       // Reset all state when socket is disconnected
       setRemoteStreams([]);
-      setConsumingProducers(new Set());
+      consumingProducersRef.current.clear();
+      consumersRef.current.clear();
       setLocalStream(null);
       setVideoProducer(null);
       setAudioProducer(null);
+      setScreenProducers([]);
+      sendTransportRef.current = null;
+      hostMutedKindsRef.current.clear();
       setIsCameraOn(true);
       setIsMicOn(true);
+      setRole(null);
+      peerIdRef.current = null;
     }
   }, [socket]);
 
+  const applyPublisherLimit = () => {
+    if (!socket) return;
+
+    const limit =
+      publisherLimitInput.trim() === "" ? null : Number(publisherLimitInput);
+    moderate(socket, "setPublisherLimit", { limit });
+  };
+
   return (
     <div className="flex flex-col items-center justify-center h-screen gap-4">
       <h1 className="text-2xl font-bold">Stream Your Video</h1>
+      <p className="text-gray-600">
+        Room: <code className="bg-gray-100 px-2 py-1 rounded">{roomId}</code>
+      </p>
+      <input
+        className="border border-gray-300 p-2 rounded-md"
+        placeholder="Your name"
+        value={name}
+        maxLength={32}
+        onChange={(event) => setName(event.target.value)}
+        disabled={!!socket}
+      />
       <button
         className="bg-blue-500 text-white p-2 rounded-md cursor-pointer"
         onClick={connectAndProduce}
@@ -396,6 +1153,44 @@ export default function StreamPage() {
         Connect and Start Streaming
       </button>
 
+      {notice && <p className="text-red-600">{notice}</p>}
+      {socket && (
+        <p className="text-gray-600">
+          {roomSettings.locked ? "🔒 Locked" : "🔓 Open"}
+          {roomSettings.publisherLimit !== null &&
+            ` · up to ${roomSettings.publisherLimit} publishers`}
+          {role && ` · you are ${role}`}
+        </p>
+      )}
+
+      {/* Host controls */}
+      {socket && role === "host" && (
+        <div className="flex gap-2 items-center">
+          <button
+            className="bg-gray-500 hover:bg-gray-600 text-white p-2 rounded-md cursor-pointer"
+            onClick={() =>
+              moderate(socket, "lockRoom", { locked: !roomSettings.locked })
+            }
+          >
+            {roomSettings.locked ? "Unlock Room" : "Lock Room"}
+          </button>
+          <input
+            className="border border-gray-300 p-2 rounded-md w-40"
+            type="number"
+            min={0}
+            placeholder="Publisher limit"
+            value={publisherLimitInput}
+            onChange={(event) => setPublisherLimitInput(event.target.value)}
+          />
+          <button
+            className="bg-gray-500 hover:bg-gray-600 text-white p-2 rounded-md cursor-pointer"
+            onClick={applyPublisherLimit}
+          >
+            Set Limit
+          </button>
+        </div>
+      )}
+
       {/* Camera and Microphone Controls */}
       {socket && localStream && (
         <div className="flex gap-4">
@@ -419,6 +1214,20 @@ export default function StreamPage() {
           >
             {isMicOn ? "🎤 Mic On" : "🎤 Mic Off"}
           </button>
+          <button
+            className={`p-2 rounded-md text-white cursor-pointer ${
+              screenProducers.length > 0
+                ? "bg-red-500 hover:bg-red-600"
+                : "bg-gray-500 hover:bg-gray-600"
+            }`}
+            onClick={() =>
+              screenProducers.length > 0
+                ? stopScreenShare()
+                : startScreenShare()
+            }
+          >
+            {screenProducers.length > 0 ? "🖥️ Stop Sharing" : "🖥️ Share Screen"}
+          </button>
         </div>
       )}
 
@@ -434,29 +1243,22 @@ export default function StreamPage() {
             style={{ width: "400px", border: "2px solid blue" }}
           />
         </div>
-        {remoteStreams.map(({ id, stream, kind }) =>
-          kind === "video" ? (
-            <div
-              key={id}
-              className="flex flex-col items-center justify-center gap-4"
-            >
-              <h3 className="text-2xl font-bold text-green-500">
-                Remote Video {id}
-              </h3>
-              <video
-                autoPlay
-                style={{ width: "300px", border: "2px solid green" }}
-                ref={(el) => {
-                  if (el) el.srcObject = stream;
-                }}
+        {remoteStreams.map((remoteStream) =>
+          remoteStream.kind === "video" ? (
+            socket && (
+              <RemoteVideo
+                key={remoteStream.id}
+                remoteStream={remoteStream}
+                socket={socket}
+                isHost={role === "host"}
               />
-            </div>
+            )
           ) : (
             <audio
-              key={id}
+              key={remoteStream.id}
               autoPlay
               ref={(el) => {
-                if (el) el.srcObject = stream;
+                if (el) el.srcObject = remoteStream.stream;
               }}
               style={{ display: "none" }}
             />
@@ -466,3 +1268,11 @@ export default function StreamPage() {
     </div>
   );
 }
+
+export default function StreamPage() {
+  return (
+    <Suspense>
+      <StreamRoom />
+    </Suspense>
+  );
+}
@@ -1,7 +1,9 @@
 "use client";
 
-import { useEffect, useRef, useState, useCallback } from "react";
+import { Suspense, useEffect, useRef, useState, useCallback } from "react";
+import { useSearchParams } from "next/navigation";
 import Hls from "hls.js";
+import type { HlsConfig } from "hls.js";
 
 // Constants
 const HLS_CONFIG = {
@@ -10,11 +12,33 @@ const HLS_CONFIG = {
   backBufferLength: 90,
   maxBufferLength: 30,
   maxMaxBufferLength: 600,
+  // Automatic quality selection never picks more pixels than the player shows
+  capLevelToPlayerSize: true,
 } as const;
 
+// For servers running in low-latency mode, which hold playlist requests
+// until the next part is ready
+const LOW_LATENCY_HLS_CONFIG = {
+  ...HLS_CONFIG,
+  backBufferLength: 30,
+  maxBufferLength: 4,
+  // Play slightly faster to catch up with the live edge after a stall
+  maxLiveSyncPlaybackRate: 1.5,
+} as const;
+
+// The media server serves the HLS output of every room at /live/<roomId>/
+const MEDIA_SERVER_URL = "http://localhost:3001";
+const DEFAULT_ROOM_ID = "default";
+
 const RECOVERY_TIMEOUT = 2000;
 const FALLBACK_RECOVERY_TIMEOUT = 3000;
 
+// Seeking within DVR / EVENT playlists
+const LIVE_POSITION_INTERVAL = 1000;
+const LIVE_EDGE_TOLERANCE = 2;
+
+const LATENCY_INTERVAL = 1000;
+
 // Types
 interface VideoState {
   isLoading: boolean;
@@ -77,11 +101,28 @@ function useBufferRecovery(videoRef: React.RefObject<HTMLVideoElement | null>) {
   return { isRecovering, handleBufferStall, clearRecovery };
 }
 
+// Quality levels of the master playlist
+interface QualityLevel {
+  index: number;
+  height: number;
+  bitrate: number;
+}
+
+// hls.js uses level -1 for automatic selection
+const AUTO_QUALITY = -1;
+
 // Custom hook for HLS player management
-function useHLSPlayer(hlsUrl: string, videoRef: React.RefObject<HTMLVideoElement | null>) {
+function useHLSPlayer(
+  hlsUrl: string,
+  hlsConfig: Partial<HlsConfig>,
+  videoRef: React.RefObject<HTMLVideoElement | null>
+) {
   const hlsRef = useRef<Hls | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [levels, setLevels] = useState<QualityLevel[]>([]);
+  const [currentLevel, setCurrentLevel] = useState(AUTO_QUALITY);
+  const [selectedLevel, setSelectedLevel] = useState(AUTO_QUALITY);
   
   const { isRecovering, handleBufferStall, clearRecovery } = useBufferRecovery(videoRef);
 
@@ -125,18 +166,29 @@ function useHLSPlayer(hlsUrl: string, videoRef: React.RefObject<HTMLVideoElement
 
     if (Hls.isSupported()) {
       // HLS.js is supported, use it for HLS playback
-      const hls = new Hls(HLS_CONFIG);
+      const hls = new Hls(hlsConfig);
       hlsRef.current = hls;
 
       hls.loadSource(hlsUrl);
       hls.attachMedia(video);
 
-      hls.on(Hls.Events.MANIFEST_PARSED, () => {
+      hls.on(Hls.Events.MANIFEST_PARSED, (event, data) => {
         console.log("HLS manifest parsed successfully");
+        setLevels(
+          data.levels.map((level, index) => ({
+            index,
+            height: level.height,
+            bitrate: level.bitrate,
+          }))
+        );
         setIsLoading(false);
         setError(null);
       });
 
+      hls.on(Hls.Events.LEVEL_SWITCHED, (event, data) => {
+        setCurrentLevel(data.level);
+      });
+
       hls.on(Hls.Events.ERROR, (event, data) => handleHLSError(data));
 
       hls.on(Hls.Events.MEDIA_ATTACHED, () => {
@@ -160,7 +212,7 @@ function useHLSPlayer(hlsUrl: string, videoRef: React.RefObject<HTMLVideoElement
       setError("HLS is not supported in this browser");
       setIsLoading(false);
     }
-  }, [hlsUrl, videoRef, handleHLSError, isRecovering]);
+  }, [hlsUrl, hlsConfig, videoRef, handleHLSError, isRecovering]);
 
   const refreshStream = useCallback(() => {
     const video = videoRef.current;
@@ -177,17 +229,34 @@ function useHLSPlayer(hlsUrl: string, videoRef: React.RefObject<HTMLVideoElement
     }
   }, [hlsUrl, videoRef, clearRecovery]);
 
+  // Pass AUTO_QUALITY to let hls.js pick the level from the bandwidth
+  const selectQuality = useCallback((levelIndex: number) => {
+    const hls = hlsRef.current;
+    if (!hls) return;
+
+    hls.currentLevel = levelIndex;
+    setSelectedLevel(levelIndex);
+  }, []);
+
   const cleanup = useCallback(() => {
     if (hlsRef.current) {
       hlsRef.current.destroy();
       hlsRef.current = null;
     }
+    setLevels([]);
+    setCurrentLevel(AUTO_QUALITY);
+    setSelectedLevel(AUTO_QUALITY);
     clearRecovery();
   }, [clearRecovery]);
 
   return {
+    hlsRef,
     isLoading,
     error,
+    levels,
+    currentLevel,
+    selectedLevel,
+    selectQuality,
     isRecovering,
     handleBufferStall,
     initializeHLS,
@@ -196,6 +265,135 @@ function useHLSPlayer(hlsUrl: string, videoRef: React.RefObject<HTMLVideoElement
   };
 }
 
+// Formats seconds as m:ss or h:mm:ss
+function formatDuration(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds % 60);
+  const minutes = Math.floor((totalSeconds / 60) % 60);
+  const hours = Math.floor(totalSeconds / 3600);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+    : `${minutes}:${pad(seconds)}`;
+}
+
+// Custom hook for seeking within the window of a DVR or EVENT playlist
+interface LivePosition {
+  start: number;
+  liveEdge: number;
+  currentTime: number;
+  behindLive: number;
+}
+
+const EMPTY_LIVE_POSITION: LivePosition = {
+  start: 0,
+  liveEdge: 0,
+  currentTime: 0,
+  behindLive: 0,
+};
+
+function useLiveSeek(
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  hlsRef: React.RefObject<Hls | null>
+) {
+  const [position, setPosition] = useState<LivePosition>(EMPTY_LIVE_POSITION);
+
+  const updatePosition = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || video.seekable.length === 0) {
+      setPosition(EMPTY_LIVE_POSITION);
+      return;
+    }
+
+    const start = video.seekable.start(0);
+    const end = video.seekable.end(video.seekable.length - 1);
+    // hls.js keeps a few segments of distance to the end of the playlist
+    const liveEdge = hlsRef.current?.liveSyncPosition ?? end;
+
+    setPosition({
+      start,
+      liveEdge,
+      currentTime: video.currentTime,
+      behindLive: Math.max(0, liveEdge - video.currentTime),
+    });
+  }, [videoRef, hlsRef]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    // The window also moves while playback is paused
+    const interval = setInterval(updatePosition, LIVE_POSITION_INTERVAL);
+    video.addEventListener("timeupdate", updatePosition);
+
+    return () => {
+      clearInterval(interval);
+      video.removeEventListener("timeupdate", updatePosition);
+    };
+  }, [videoRef, updatePosition]);
+
+  const seekTo = useCallback((time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.currentTime = time;
+    updatePosition();
+  }, [videoRef, updatePosition]);
+
+  const jumpToLive = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || video.seekable.length === 0) return;
+
+    video.currentTime =
+      hlsRef.current?.liveSyncPosition ??
+      video.seekable.end(video.seekable.length - 1);
+    video.play().catch((err) => {
+      console.error("Failed to resume playback at live edge:", err);
+    });
+    updatePosition();
+  }, [videoRef, hlsRef, updatePosition]);
+
+  return {
+    ...position,
+    isAtLiveEdge: position.behindLive < LIVE_EDGE_TOLERANCE,
+    seekTo,
+    jumpToLive,
+  };
+}
+
+// Custom hook for measuring how far playback is behind the camera
+interface Latency {
+  // Wall clock minus the program date time of the frame being shown
+  glassToGlass: number | null;
+  // Distance to the end of the playlist as estimated by hls.js
+  playlist: number | null;
+}
+
+function useLatency(hlsRef: React.RefObject<Hls | null>) {
+  const [latency, setLatency] = useState<Latency>({
+    glassToGlass: null,
+    playlist: null,
+  });
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const hls = hlsRef.current;
+      const playingDate = hls?.playingDate;
+
+      setLatency({
+        glassToGlass: playingDate
+          ? (Date.now() - playingDate.getTime()) / 1000
+          : null,
+        playlist: hls && hls.latency > 0 ? hls.latency : null,
+      });
+    }, LATENCY_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [hlsRef]);
+
+  return latency;
+}
+
 // Custom hook for video state management
 function useVideoState(
   videoRef: React.RefObject<HTMLVideoElement | null>, 
@@ -339,6 +537,120 @@ function PlayerControls({ isPlaying, onPlayPause, onRefresh, disabled }: PlayerC
   );
 }
 
+// Live Seek Bar Component
+interface LiveSeekBarProps {
+  start: number;
+  liveEdge: number;
+  currentTime: number;
+  behindLive: number;
+  isAtLiveEdge: boolean;
+  onSeek: (time: number) => void;
+  onJumpToLive: () => void;
+}
+
+function LiveSeekBar({
+  start,
+  liveEdge,
+  currentTime,
+  behindLive,
+  isAtLiveEdge,
+  onSeek,
+  onJumpToLive,
+}: LiveSeekBarProps) {
+  const hasWindow = liveEdge > start;
+
+  return (
+    <div className="flex flex-col gap-2 w-full max-w-4xl">
+      <input
+        type="range"
+        min={start}
+        max={liveEdge}
+        step={0.1}
+        value={Math.min(Math.max(currentTime, start), liveEdge)}
+        onChange={(event) => onSeek(Number(event.target.value))}
+        className="w-full accent-red-500"
+        disabled={!hasWindow}
+      />
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          {hasWindow ? `${formatDuration(liveEdge - start)} available` : ""}
+        </span>
+
+        {isAtLiveEdge ? (
+          <span className="font-semibold text-red-600">🔴 LIVE</span>
+        ) : (
+          <span>{formatDuration(behindLive)} behind live</span>
+        )}
+
+        <button
+          onClick={onJumpToLive}
+          className="px-4 py-1 bg-red-500 hover:bg-red-600 text-white font-medium rounded-lg disabled:opacity-50"
+          disabled={isAtLiveEdge}
+        >
+          ⏩ Jump to Live
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Quality Selector Component
+interface QualitySelectorProps {
+  levels: QualityLevel[];
+  currentLevel: number;
+  selectedLevel: number;
+  onSelect: (levelIndex: number) => void;
+}
+
+function QualitySelector({ levels, currentLevel, selectedLevel, onSelect }: QualitySelectorProps) {
+  // Native HLS playback and single-rendition streams have nothing to choose
+  if (levels.length < 2) return null;
+
+  const playing = levels.find((level) => level.index === currentLevel);
+  const label = (level: QualityLevel) =>
+    `${level.height}p (${Math.round(level.bitrate / 1000)} kbps)`;
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700">
+      Quality:
+      <select
+        value={selectedLevel}
+        onChange={(event) => onSelect(Number(event.target.value))}
+        className="px-2 py-1 border border-gray-300 rounded-lg"
+      >
+        <option value={AUTO_QUALITY}>
+          Auto{playing ? ` (${playing.height}p)` : ""}
+        </option>
+        {levels.map((level) => (
+          <option key={level.index} value={level.index}>
+            {label(level)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+// Latency Info Component
+interface LatencyInfoProps {
+  latency: Latency;
+  lowLatency: boolean;
+}
+
+function LatencyInfo({ latency, lowLatency }: LatencyInfoProps) {
+  const format = (seconds: number | null) =>
+    seconds === null ? "–" : `${seconds.toFixed(1)} s`;
+
+  return (
+    <div className="flex gap-6 text-sm text-gray-700">
+      <span>{lowLatency ? "Low-Latency HLS" : "HLS"}</span>
+      <span>Glass-to-glass: {format(latency.glassToGlass)}</span>
+      <span>Behind playlist: {format(latency.playlist)}</span>
+    </div>
+  );
+}
+
 // Stream Info Component
 interface StreamInfoProps {
   hlsUrl: string;
@@ -364,20 +676,49 @@ function StreamInfo({ hlsUrl, isRecovering }: StreamInfoProps) {
   );
 }
 
-// Main Watch Page Component
-export default function WatchPage() {
+// Room Stream Component
+function RoomStream() {
+  const searchParams = useSearchParams();
+  const roomId = searchParams.get("room") || DEFAULT_ROOM_ID;
+  const lowLatency = searchParams.get("ll") === "1";
+  // Required when the server has AUTH_SECRET set; the server adds it to
+  // every URI in the playlists
+  const token = searchParams.get("token");
   const videoRef = useRef<HTMLVideoElement | null>(null);
-  const hlsUrl = "/live/stream.m3u8";
+  const hlsUrl =
+    `${MEDIA_SERVER_URL}/live/${encodeURIComponent(roomId)}/stream.m3u8` +
+    (token ? `?token=${encodeURIComponent(token)}` : "");
 
   const {
+    hlsRef,
     isLoading,
     error,
+    levels,
+    currentLevel,
+    selectedLevel,
+    selectQuality,
     isRecovering,
     handleBufferStall,
     initializeHLS,
     refreshStream,
     cleanup,
-  } = useHLSPlayer(hlsUrl, videoRef);
+  } = useHLSPlayer(
+    hlsUrl,
+    lowLatency ? LOW_LATENCY_HLS_CONFIG : HLS_CONFIG,
+    videoRef
+  );
+
+  const {
+    start,
+    liveEdge,
+    currentTime,
+    behindLive,
+    isAtLiveEdge,
+    seekTo,
+    jumpToLive,
+  } = useLiveSeek(videoRef, hlsRef);
+
+  const latency = useLatency(hlsRef);
 
   const { isPlaying, setupVideoEventListeners, togglePlayPause } = useVideoState(
     videoRef,
@@ -397,6 +738,9 @@ export default function WatchPage() {
   return (
     <div className="flex flex-col items-center justify-center min-h-screen gap-6 p-8">
       <h1 className="text-3xl font-bold text-gray-800">HLS Live Stream</h1>
+      <p className="text-gray-600">
+        Room: <code className="bg-gray-100 px-2 py-1 rounded">{roomId}</code>
+      </p>
 
       <VideoPlayer
         videoRef={videoRef}
@@ -405,6 +749,16 @@ export default function WatchPage() {
         error={error}
       />
 
+      <LiveSeekBar
+        start={start}
+        liveEdge={liveEdge}
+        currentTime={currentTime}
+        behindLive={behindLive}
+        isAtLiveEdge={isAtLiveEdge}
+        onSeek={seekTo}
+        onJumpToLive={jumpToLive}
+      />
+
       <PlayerControls
         isPlaying={isPlaying}
         onPlayPause={togglePlayPause}
@@ -412,7 +766,25 @@ export default function WatchPage() {
         disabled={!!error}
       />
 
+      <QualitySelector
+        levels={levels}
+        currentLevel={currentLevel}
+        selectedLevel={selectedLevel}
+        onSelect={selectQuality}
+      />
+
+      <LatencyInfo latency={latency} lowLatency={lowLatency} />
+
       <StreamInfo hlsUrl={hlsUrl} isRecovering={isRecovering} />
     </div>
   );
 }
+
+// Main Watch Page Component
+export default function WatchPage() {
+  return (
+    <Suspense>
+      <RoomStream />
+    </Suspense>
+  );
+}
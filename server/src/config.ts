@@ -1,16 +1,124 @@
+import os from "os";
+import path from "path";
 import type { types } from "mediasoup";
+import { CODECS, HLS_PLAYLIST_MODES } from "./config/constants";
+import type { HlsPlaylistMode, HlsRendition } from "./types";
+
+function selectCodecs(names: string): types.RtpCodecCapability[] {
+  return names
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map((name) => {
+      const codec = CODECS[name];
+      if (!codec) {
+        throw new Error(
+          `Unknown codec ${name}, expected one of ${Object.keys(CODECS).join(", ")}`
+        );
+      }
+      return codec;
+    });
+}
+
+function selectHlsMode(name: string): HlsPlaylistMode {
+  const mode = HLS_PLAYLIST_MODES.find((candidate) => candidate === name);
+  if (!mode) {
+    throw new Error(
+      `Unknown HLS mode ${name}, expected one of ${HLS_PLAYLIST_MODES.join(", ")}`
+    );
+  }
+  return mode;
+}
 
 export const config = {
   listenIp: "0.0.0.0",
   listenPort: 3001,
   rtpPlayer: {
     listenIp: "127.0.0.1",
+    // Every producer sent to FFmpeg takes an RTP/RTCP port pair from
+    // this range
+    minPort: Number(process.env.RTP_MIN_PORT) || 5004,
+    maxPort: Number(process.env.RTP_MAX_PORT) || 5999,
+    // Fixed ports of the single-room server in index.ts
     videoPort: 5004,
     audioPort: 5006,
     videoPort2: 5008,
     audioPort2: 5010,
   },
+  rooms: {
+    defaultRoomId: "default",
+    // Time a disconnected peer keeps its producers and composite tile while
+    // its client reconnects (ms)
+    reconnectGracePeriod: Number(process.env.RECONNECT_GRACE_PERIOD) || 15000,
+  },
+  hls: {
+    // Served by the media server at /live/<roomId>/
+    outputDirectory:
+      process.env.HLS_OUTPUT_DIR || path.resolve(__dirname, "../live"),
+    mode: selectHlsMode(process.env.HLS_MODE || "live"),
+    // Serve partial segments with blocking playlist reload from /live
+    lowLatency: process.env.HLS_LOW_LATENCY === "true",
+    // Length of the seekable window in dvr mode
+    dvrWindowSeconds: Number(process.env.HLS_DVR_WINDOW) || 2 * 60 * 60,
+    // Adaptive bitrate ladder, listed in the master playlist stream.m3u8
+    renditions: [
+      { name: "360p", width: 640, height: 360, videoBitrate: 800 },
+      { name: "720p", width: 1280, height: 720, videoBitrate: 2500 },
+      { name: "1080p", width: 1920, height: 1080, videoBitrate: 5000 },
+    ] as HlsRendition[],
+  },
+  composite: {
+    // Font of the name on the card shown for a paused camera; FFmpeg falls
+    // back to fontconfig's default font
+    placeholderFontFile: process.env.PLACEHOLDER_FONT_FILE || undefined,
+    // A single H.264 camera is copied into the top rendition instead of
+    // being re-encoded (not in low-latency mode)
+    h264Passthrough: process.env.H264_PASSTHROUGH !== "false",
+  },
+  auth: {
+    // Shared secret of the HS256 tokens; without it anyone may connect and
+    // watch, as a publisher
+    secret: process.env.AUTH_SECRET || undefined,
+    // Makes everyone a host while there is no secret, e.g. for development
+    disabled: process.env.AUTH_DISABLED === "true",
+    // Lifetime of tokens issued with `npm run token`
+    tokenTtlSeconds: Number(process.env.AUTH_TOKEN_TTL) || 24 * 60 * 60,
+  },
+  admin: {
+    // Bearer token of the admin API under `/admin`, which is off without it
+    secret: process.env.ADMIN_SECRET || undefined,
+  },
+  metrics: {
+    // Bearer token of `/metrics`, which is off without it
+    secret: process.env.METRICS_SECRET || process.env.ADMIN_SECRET || undefined,
+  },
+  audit: {
+    // Moderation actions are appended here as JSON lines
+    file: process.env.AUDIT_LOG_FILE || path.resolve(__dirname, "../audit.log"),
+  },
+  cluster: {
+    nodeId: process.env.NODE_ID || `${os.hostname()}-${process.pid}`,
+    publicUrl: process.env.PUBLIC_URL || "http://localhost:3001",
+    internalUrl:
+      process.env.INTERNAL_URL || process.env.PUBLIC_URL || "http://localhost:3001",
+    // redis:// URL of a Redis-compatible server shared by all nodes; without
+    // it the registry is kept in memory and the node runs on its own
+    registryUrl: process.env.ROOM_REGISTRY_URL || undefined,
+    // Shared secret of the cascade API between nodes; required for cascading
+    secret: process.env.CLUSTER_SECRET || undefined,
+    // Address the PipeTransports to other nodes listen on
+    pipeListenIp: process.env.PIPE_LISTEN_IP || "127.0.0.1",
+    pipeAnnouncedIp: process.env.PIPE_ANNOUNCED_IP || undefined,
+    // Peers a node takes for a room before clients are sent to another node
+    maxPeersPerNode: Number(process.env.NODE_MAX_PEERS) || 200,
+  },
+  recording: {
+    directory:
+      process.env.RECORDING_DIR || path.resolve(__dirname, "../recordings"),
+  },
   mediasoup: {
+    // One worker per CPU core; rooms go to the least loaded worker
+    numWorkers: Number(process.env.MEDIASOUP_NUM_WORKERS) || os.cpus().length,
     worker: {
       logLevel: "warn" as types.WorkerLogLevel,
       logTags: ["info", "ice", "dtls", "rtp", "srtp", "rtcp"],
@@ -18,24 +126,14 @@ export const config = {
       rtcMaxPort: 49999,
     },
     router: {
-      mediaCodecs: [
-        {
-          kind: "audio",
-          mimeType: "audio/opus",
-          clockRate: 48000,
-          channels: 2,
-          preferredPayloadType: 97,
-        },
-        {
-          kind: "video",
-          mimeType: "video/VP8",
-          clockRate: 90000,
-          preferredPayloadType: 96,
-          parameters: {
-            "x-google-start-bitrate": 1000,
-          },
-        },
-      ] as types.RtpCodecCapability[],
+      // Names from CODECS in order of preference: senders use the first
+      // video and audio codec they support
+      mediaCodecs: selectCodecs(
+        process.env.MEDIASOUP_CODECS || "opus,vp8,vp9,h264,h264-high"
+      ),
+      // Consumers of a room's router before receivers are moved to a router
+      // on another worker, with the producers piped over
+      maxConsumers: Number(process.env.ROUTER_MAX_CONSUMERS) || 500,
     },
     webRtcTransport: {
       listenIps: [
@@ -1,3 +1,12 @@
+import type { types } from "mediasoup";
+import type {
+  HlsPlaylistMode,
+  PipelineAction,
+  ProducerSource,
+  Role,
+  RoleAction,
+} from "../types";
+
 // Port configuration constants
 export const PORTS = {
   VIDEO: {
@@ -17,7 +26,7 @@ export const PORTS = {
 // FFmpeg configuration constants
 export const FFMPEG = {
   VIDEO: {
-    SCALE: "320:240",
+    FRAME_RATE: 30,
     GOP_SIZE: 30,
     PRESET: "veryfast",
     TUNE: "zerolatency",
@@ -33,24 +42,240 @@ export const FFMPEG = {
     LIST_SIZE: 5,
     SEGMENT_TYPE: "mpegts",
   },
+  // Low-Latency HLS output: FFmpeg writes one fMP4 file per partial segment
+  LOW_LATENCY_HLS: {
+    PART_DURATION: 0.5,
+    PARTS_PER_SEGMENT: 4,
+    LIST_SIZE: 24,
+    SEGMENT_TYPE: "fmp4",
+  },
   ANALYSIS: {
     DURATION: 3000000,
     PROBE_SIZE: 3000000,
     MAX_DELAY: 500000,
     BUFFER_SIZE: 65536,
   },
+  // Layout while a screen is shared: the screen fills the left, cameras
+  // are stacked on the right
+  PRESENTATION: {
+    WIDTH: 1280,
+    HEIGHT: 720,
+    THUMBNAIL_WIDTH: 320,
+    THUMBNAIL_HEIGHT: 180,
+  },
+  // Card shown in the composite instead of a paused camera
+  PLACEHOLDER: {
+    COLORS: ["0x1abc9c", "0x3498db", "0x9b59b6", "0xe67e22", "0xe74c3c", "0x34495e"],
+    FONT_SIZE: 24,
+  },
+  // Delay before a changed set of producers restarts FFmpeg (ms)
+  RECONFIGURE_DELAY: 1000,
+  // Maximum wait for the previous process to release its ports (ms)
+  EXIT_TIMEOUT: 3000,
+  // Wait after SIGTERM before a process is killed with SIGKILL (ms)
+  KILL_TIMEOUT: 2000,
+  // Restarts after crashes and hangs
+  SUPERVISOR: {
+    // Delay of the first restart, doubled for every crash in a row (ms)
+    RESTART_DELAY_MIN: 1000,
+    RESTART_DELAY_MAX: 30000,
+    // A process that ran this long resets the delay (ms)
+    STABLE_AFTER: 30000,
+    WATCHDOG_INTERVAL: 5000,
+    // Time to probe the inputs before progress is expected (ms)
+    STARTUP_TIMEOUT: 15000,
+    // A process is hung without a progress line or a new segment for (ms)
+    PROGRESS_TIMEOUT: 10000,
+    SEGMENT_TIMEOUT: 20000,
+  },
+  // Key frame requests sent after FFmpeg (re)starts (ms after spawn)
+  KEYFRAME_REQUEST_DELAYS: [500, 1500, 3000],
+  // Key frame requests to a passed-through H.264 camera, which segments can
+  // only start with (ms)
+  PASSTHROUGH_KEYFRAME_INTERVAL: 2000,
 } as const;
 
-// MediaSoup codec configuration
-export const CODECS = {
-  OPUS: {
-    PAYLOAD_TYPE: 97,
-    CLOCK_RATE: 48000,
-    CHANNELS: 2,
+// Low-Latency HLS playlist server constants
+export const LOW_LATENCY_HLS = {
+  // Interval at which FFmpeg's playlists are checked for new parts (ms)
+  POLL_INTERVAL: 100,
+  // Longest a blocking playlist or preload hint request is held (ms)
+  BLOCK_TIMEOUT: 6000,
+  // Complete segments that still list their parts
+  PART_LIST_SEGMENTS: 3,
+} as const;
+
+// HTTP delivery of the HLS output
+export const HLS_HTTP = {
+  MIME_TYPES: {
+    ".m3u8": "application/vnd.apple.mpegurl",
+    ".ts": "video/mp2t",
+    ".m4s": "video/iso.segment",
+    ".mp4": "video/mp4",
+  } as Record<string, string>,
+  // Playlists change with every segment; segment names are never reused
+  // while their playlist exists. Init segments are rewritten on restarts.
+  PLAYLIST_CACHE_CONTROL: "no-cache",
+  SEGMENT_CACHE_CONTROL: "public, max-age=31536000, immutable",
+  SEGMENT_EXTENSIONS: [".ts", ".m4s"],
+} as const;
+
+// Removal of HLS output that no playlist refers to anymore
+export const HLS_CLEANUP = {
+  INTERVAL: 30000,
+  // Minimum age of an unreferenced segment before it is deleted (ms)
+  SEGMENT_AGE: 30000,
+  // Age after which the output of a closed room is deleted (ms)
+  ROOM_AGE: 60 * 60 * 1000,
+} as const;
+
+// Layer selection for simulcast and SVC consumers
+export const SIMULCAST = {
+  // Height of each spatial layer of a 720p camera, lowest first
+  LAYER_HEIGHTS: [180, 360, 720],
+  // Tile area that counts as priority 1; mediasoup allows 1 to 255
+  PRIORITY_TILE_AREA: 320 * 180,
+  MAX_PRIORITY: 255,
+} as const;
+
+// Sources a client may announce in a producer's appData
+export const PRODUCER_SOURCES: readonly ProducerSource[] = [
+  "camera",
+  "microphone",
+  "screen",
+];
+
+// What each role may do in its room; everyone may watch the HLS output
+export const ROLE_PERMISSIONS: Record<Role, readonly RoleAction[]> = {
+  host: ["produce", "consume", "moderate"],
+  publisher: ["produce", "consume"],
+  viewer: ["consume"],
+};
+
+// Moderation constants
+export const MODERATION = {
+  MAX_REASON_LENGTH: 200,
+  // Audit entries kept in memory per server for the API
+  AUDIT_HISTORY_SIZE: 1000,
+  // Recorded as the actor of actions taken through the admin API
+  ADMIN_ACTOR: { peerId: "admin", userId: "admin", name: "Admin API" },
+} as const;
+
+export const PIPELINE_ACTIONS: readonly PipelineAction[] = ["start", "stop", "restart"];
+
+export const HLS_PLAYLIST_MODES: readonly HlsPlaylistMode[] = ["live", "dvr", "event"];
+
+// Recording configuration constants
+export const RECORDING = {
+  // Time FFmpeg gets to finalize a file before it is killed (ms)
+  STOP_TIMEOUT: 5000,
+} as const;
+
+// Restreaming configuration constants
+export const RESTREAM = {
+  // Delay before the first restart of a failed destination, doubled on
+  // every further attempt (ms)
+  RETRY_DELAY: 2000,
+  MAX_RETRY_DELAY: 30000,
+  MAX_RETRIES: 5,
+  // Time FFmpeg gets to close the connection before it is killed (ms)
+  STOP_TIMEOUT: 5000,
+} as const;
+
+// Codecs the router can offer, selected by name through MEDIASOUP_CODECS.
+// mediasoup assigns payload types to those without a preferred one.
+export const CODECS: Record<string, types.RtpCodecCapability> = {
+  // In-band FEC and DTX are requested from senders
+  opus: {
+    kind: "audio",
+    mimeType: "audio/opus",
+    clockRate: 48000,
+    channels: 2,
+    preferredPayloadType: 97,
+    parameters: {
+      useinbandfec: 1,
+      usedtx: 1,
+    },
   },
-  VP8: {
-    PAYLOAD_TYPE: 96,
-    CLOCK_RATE: 90000,
-    START_BITRATE: 1000,
+  // Redundant Opus (RFC 2198), only offered by mediasoup versions that
+  // support it
+  red: {
+    kind: "audio",
+    mimeType: "audio/red",
+    clockRate: 48000,
+    channels: 2,
   },
-} as const; 
\ No newline at end of file
+  vp8: {
+    kind: "video",
+    mimeType: "video/VP8",
+    clockRate: 90000,
+    preferredPayloadType: 96,
+    parameters: {
+      "x-google-start-bitrate": 1000,
+    },
+  },
+  // Used by clients that send SVC instead of simulcast
+  vp9: {
+    kind: "video",
+    mimeType: "video/VP9",
+    clockRate: 90000,
+    preferredPayloadType: 98,
+    parameters: {
+      "profile-id": 0,
+      "x-google-start-bitrate": 1000,
+    },
+  },
+  // Constrained Baseline, supported by every browser with H.264
+  h264: {
+    kind: "video",
+    mimeType: "video/H264",
+    clockRate: 90000,
+    parameters: {
+      "packetization-mode": 1,
+      "profile-level-id": "42e01f",
+      "level-asymmetry-allowed": 1,
+      "x-google-start-bitrate": 1000,
+    },
+  },
+  "h264-main": {
+    kind: "video",
+    mimeType: "video/H264",
+    clockRate: 90000,
+    parameters: {
+      "packetization-mode": 1,
+      "profile-level-id": "4d001f",
+      "level-asymmetry-allowed": 1,
+      "x-google-start-bitrate": 1000,
+    },
+  },
+  "h264-high": {
+    kind: "video",
+    mimeType: "video/H264",
+    clockRate: 90000,
+    parameters: {
+      "packetization-mode": 1,
+      "profile-level-id": "640032",
+      "level-asymmetry-allowed": 1,
+      "x-google-start-bitrate": 1000,
+    },
+  },
+  av1: {
+    kind: "video",
+    mimeType: "video/AV1",
+    clockRate: 90000,
+    parameters: {
+      "x-google-start-bitrate": 1000,
+    },
+  },
+};
+
+// Cluster registry settings; times in ms
+export const CLUSTER = {
+  HEARTBEAT_INTERVAL: 5000,
+  // Nodes and room claims expire after three missed heartbeats
+  ENTRY_TTL: 3 * 5000,
+  // Time limit of a call to another node's cascade API
+  REQUEST_TIMEOUT: 5000,
+  // Prefix of the registry's keys in Redis
+  KEY_PREFIX: "fermion:",
+} as const;
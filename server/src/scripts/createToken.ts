@@ -0,0 +1,54 @@
+import { randomUUID } from "crypto";
+import { parseArgs } from "util";
+import { config } from "../config";
+import { ROLE_PERMISSIONS } from "../config/constants";
+import { AuthService } from "../services/AuthService";
+import type { Role } from "../types";
+
+/**
+ * Prints a token for a room, signed with AUTH_SECRET:
+ *
+ *   AUTH_SECRET=... npm run token -- --room team --role publisher --name Alice
+ */
+function main(): void {
+  const { values } = parseArgs({
+    options: {
+      room: { type: "string", default: config.rooms.defaultRoomId },
+      role: { type: "string", default: "viewer" },
+      name: { type: "string" },
+      user: { type: "string" },
+      ttl: { type: "string" },
+    },
+  });
+
+  const role = values.role as Role;
+  if (!(role in ROLE_PERMISSIONS)) {
+    throw new Error(
+      `Unknown role ${role}, expected one of ${Object.keys(ROLE_PERMISSIONS).join(", ")}`
+    );
+  }
+
+  const ttl = values.ttl === undefined ? undefined : Number(values.ttl);
+  if (ttl !== undefined && !(Number.isInteger(ttl) && ttl > 0)) {
+    throw new Error(`Invalid ttl ${values.ttl}, expected seconds`);
+  }
+
+  const token = new AuthService().createToken(
+    {
+      sub: values.user ?? randomUUID(),
+      room: values.room,
+      role,
+      ...(values.name ? { name: values.name } : {}),
+    },
+    ttl
+  );
+
+  console.log(token);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
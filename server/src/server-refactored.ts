@@ -1,13 +1,47 @@
+import { randomUUID } from "crypto";
 import express from "express";
+import { readFile } from "fs/promises";
 import http from "http";
+import path from "path";
 import { Server } from "socket.io";
 import type { Socket } from "socket.io";
 import type { types } from "mediasoup";
 import { config } from "./config";
-import { FFmpegService } from "./services/FFmpegService";
-import { MediasoupService } from "./services/MediasoupService";
-import { PeerManager } from "./services/PeerManager";
+import {
+  HLS_HTTP,
+  MODERATION,
+  PIPELINE_ACTIONS,
+  PRODUCER_SOURCES,
+  SIMULCAST,
+} from "./config/constants";
+import { AdminService } from "./services/AdminService";
+import { AuditLogService } from "./services/AuditLogService";
+import { AuthService } from "./services/AuthService";
+import { CascadeService } from "./services/CascadeService";
+import { HlsCleanupService } from "./services/HlsCleanupService";
+import type { LowLatencyHlsService } from "./services/LowLatencyHlsService";
+import { MemoryRoomRegistry } from "./services/MemoryRoomRegistry";
+import { MetricsService } from "./services/MetricsService";
+import type { Room } from "./services/Room";
+import { PortAllocator } from "./services/PortAllocator";
+import { RecordingService } from "./services/RecordingService";
+import { RedisRoomRegistry } from "./services/RedisRoomRegistry";
+import { RestreamService } from "./services/RestreamService";
+import { RoomManager } from "./services/RoomManager";
+import { WorkerService } from "./services/WorkerService";
+import { isBearerToken } from "./utils/bearer";
+import {
+  getPriorityForTile,
+  isLayerIndex,
+  isTileDimension,
+  selectLayersForTile,
+} from "./utils/layers";
+import { addQueryToPlaylist } from "./utils/playlist";
 import type {
+  AuditAction,
+  AuthClaims,
+  CascadeEventType,
+  RemoteProducer,
   SocketEventPayloads,
   TransportInfo,
   ConsumerInfo,
@@ -17,9 +51,17 @@ class WebRTCServer {
   private app: express.Application;
   private httpServer: http.Server;
   private io: Server;
-  private ffmpegService: FFmpegService;
-  private mediasoupService: MediasoupService;
-  private peerManager: PeerManager;
+  private workerService: WorkerService;
+  private portAllocator: PortAllocator;
+  private roomManager: RoomManager;
+  private recordingService: RecordingService;
+  private restreamService: RestreamService;
+  private hlsCleanupService: HlsCleanupService;
+  private authService: AuthService;
+  private auditLogService: AuditLogService;
+  private cascadeService: CascadeService;
+  private metricsService: MetricsService;
+  private adminService: AdminService;
 
   constructor() {
     this.app = express();
@@ -28,18 +70,50 @@ class WebRTCServer {
       cors: { origin: "*" },
     });
 
-    this.ffmpegService = new FFmpegService();
-    this.mediasoupService = new MediasoupService();
-    this.peerManager = new PeerManager();
+    this.workerService = new WorkerService();
+    this.portAllocator = new PortAllocator();
+    this.cascadeService = new CascadeService(
+      config.cluster.registryUrl
+        ? new RedisRoomRegistry(config.cluster.registryUrl)
+        : new MemoryRoomRegistry()
+    );
+    this.roomManager = new RoomManager(
+      this.workerService,
+      this.portAllocator,
+      this.cascadeService
+    );
+    this.recordingService = new RecordingService(this.portAllocator);
+    this.restreamService = new RestreamService();
+    this.hlsCleanupService = new HlsCleanupService(this.roomManager);
+    this.authService = new AuthService();
+    this.auditLogService = new AuditLogService();
+    this.metricsService = new MetricsService(this.roomManager, this.workerService);
+    this.adminService = new AdminService(this.roomManager);
+
+    this.roomManager.on("roomCreated", (room) => {
+      this.setupRoomEventHandlers(room);
+    });
+
+    // Clients of a room that lost its worker join again, which recreates
+    // the room on another worker
+    this.roomManager.on("roomFailed", (room, reason) => {
+      this.io.to(room.id).emit("room-closed", { reason, rejoin: true });
+      this.io.in(room.id).disconnectSockets(true);
+    });
+
+    this.setupCascadeEventHandlers();
 
     this.setupGracefulShutdown();
   }
 
   public async start(): Promise<void> {
     try {
-      await this.mediasoupService.initialize();
-      this.ffmpegService.start();
+      await this.workerService.initialize();
+      await this.cascadeService.start(() => this.roomManager.getPeerCount());
+      this.setupHttpRoutes();
+      this.setupLiveRoutes();
       this.setupSocketHandlers();
+      this.hlsCleanupService.start();
       
       this.httpServer.listen(config.listenPort, () => {
         console.info(`🚀 Server is listening on port ${config.listenPort}`);
@@ -51,62 +125,1350 @@ class WebRTCServer {
     }
   }
 
-  private setupSocketHandlers(): void {
-    this.io.on("connection", (socket: Socket) => {
-      this.handleConnection(socket);
-    });
+  private setupHttpRoutes(): void {
+    this.app.use(express.json());
+    this.app.use(["/recordings", "/rooms/:roomId"], this.requireHost);
+
+    // With authentication, hosts only see the recordings of their room
+    this.app.get("/recordings", (_req, res) => {
+      const claims: AuthClaims | undefined = res.locals.auth;
+      const recordings = this.recordingService.listRecordings();
+
+      res.json(
+        claims
+          ? recordings.filter((recording) => recording.roomId === claims.room)
+          : recordings
+      );
+    });
+
+    // Body: { producers?: boolean } to also record every producer separately
+    this.app.post("/rooms/:roomId/recording", async (req, res) => {
+      const room = this.roomManager.getRoom(req.params.roomId);
+
+      if (!room) {
+        res.status(404).json({ error: "Room not found" });
+        return;
+      }
+
+      try {
+        const recordings = await this.recordingService.startRoomRecording(
+          room,
+          req.body?.producers === true
+        );
+        res.status(201).json(recordings);
+      } catch (error) {
+        const err = error as Error;
+        console.error("Failed to start recording:", err);
+        res.status(409).json({ error: err.message });
+      }
+    });
+
+    this.app.delete("/rooms/:roomId/recording", async (req, res) => {
+      try {
+        const recordings = await this.recordingService.stopRoomRecording(
+          req.params.roomId
+        );
+        res.json(recordings);
+      } catch (error) {
+        const err = error as Error;
+        console.error("Failed to stop recording:", err);
+        res.status(404).json({ error: err.message });
+      }
+    });
+
+    this.app.get("/rooms/:roomId/audit", (req, res) => {
+      res.json(this.auditLogService.list(req.params.roomId));
+    });
+
+    this.setupRestreamRoutes();
+    this.setupClusterRoutes();
+    this.setupAdminRoutes();
+
+    // Prometheus scrape endpoint, with the metrics secret as a bearer token
+    this.app.get("/metrics", async (req, res, next) => {
+      const { secret } = config.metrics;
+      if (secret === undefined) {
+        res.status(404).json({ error: "Metrics are disabled" });
+        return;
+      }
+      if (!isBearerToken(req.headers.authorization, secret)) {
+        res.status(401).json({ error: "Invalid metrics secret" });
+        return;
+      }
+
+      try {
+        res.type("text/plain; version=0.0.4").send(await this.metricsService.collect());
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  /**
+   * Lets only hosts of the room manage its recordings and restreams. They
+   * send their token as `Authorization: Bearer <token>`.
+   */
+  private requireHost: express.RequestHandler = (req, res, next) => {
+    if (!this.authService.isEnabled()) {
+      if (this.authService.getAnonymousRole() === "host") {
+        next();
+      } else {
+        res.status(403).json({ error: "Only hosts may manage the room" });
+      }
+      return;
+    }
+
+    let claims: AuthClaims;
+    try {
+      const token = req.headers.authorization?.replace(/^Bearer /, "");
+      claims = req.params.roomId
+        ? this.authService.authorize(token, req.params.roomId)
+        : this.authService.verify(token);
+    } catch (error) {
+      res.status(401).json({ error: (error as Error).message });
+      return;
+    }
+
+    if (claims.role !== "host") {
+      res.status(403).json({ error: "Only hosts may manage the room" });
+      return;
+    }
+
+    res.locals.auth = claims;
+    next();
+  };
+
+  /**
+   * Admin API of this node under `/admin`, for operators holding the
+   * `ADMIN_SECRET` as a bearer token. It is off without the secret.
+   */
+  private setupAdminRoutes(): void {
+    // The dashboard of the web app calls the API from another origin
+    this.app.use("/admin", (req, res, next) => {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE");
+      if (req.method === "OPTIONS") {
+        res.status(204).end();
+        return;
+      }
+
+      if (!this.adminService.isEnabled()) {
+        res.status(404).json({ error: "Admin API is disabled" });
+        return;
+      }
+      if (!this.adminService.isAuthorized(req.headers.authorization)) {
+        res.status(401).json({ error: "Invalid admin secret" });
+        return;
+      }
+      next();
+    });
+
+    this.app.get("/admin/rooms", (_req, res) => {
+      res.json(this.adminService.listRooms());
+    });
+
+    this.app.get("/admin/rooms/:roomId", (req, res) => {
+      const room = this.roomManager.getRoom(req.params.roomId);
+
+      if (!room) {
+        res.status(404).json({ error: "Room not found" });
+        return;
+      }
+
+      res.json(this.adminService.getRoomDetails(room));
+    });
+
+    this.app.get("/admin/rooms/:roomId/streams", async (req, res) => {
+      const room = this.roomManager.getRoom(req.params.roomId);
+
+      if (!room) {
+        res.status(404).json({ error: "Room not found" });
+        return;
+      }
+
+      try {
+        res.json(await this.adminService.getStreamStats(room));
+      } catch (error) {
+        const err = error as Error;
+        console.error("Failed to get stream stats:", err);
+        res.status(500).json({ error: err.message });
+      }
+    });
+
+    // Stats of a transport, producer or consumer by its ID
+    this.app.get("/admin/stats/:id", async (req, res) => {
+      try {
+        const stats = await this.adminService.getStats(req.params.id);
+
+        if (!stats) {
+          res.status(404).json({ error: "Object not found" });
+          return;
+        }
+
+        res.json(stats);
+      } catch (error) {
+        const err = error as Error;
+        console.error("Failed to get stats:", err);
+        res.status(409).json({ error: err.message });
+      }
+    });
+
+    // Body: { reason?: string }
+    this.app.delete("/admin/rooms/:roomId/peers/:peerId", (req, res) => {
+      const { roomId, peerId } = req.params;
+      const room = this.roomManager.getRoom(roomId);
+
+      if (!room?.peerManager.getPeer(peerId)) {
+        res.status(404).json({ error: "Peer not found" });
+        return;
+      }
+
+      const reason = this.kickPeer(room, peerId, req.body?.reason);
+      this.recordAdminAudit(room, "kick", peerId, { reason });
+      res.status(204).end();
+    });
+
+    // Body: { kind?: "audio" | "video" }, all producers without a kind
+    this.app.post("/admin/rooms/:roomId/peers/:peerId/mute", async (req, res) => {
+      const { roomId, peerId } = req.params;
+      const room = this.roomManager.getRoom(roomId);
+      const kind = req.body?.kind;
+
+      if (!room?.peerManager.getPeer(peerId)) {
+        res.status(404).json({ error: "Peer not found" });
+        return;
+      }
+      if (kind !== undefined && kind !== "audio" && kind !== "video") {
+        res.status(400).json({ error: "Kind must be audio or video" });
+        return;
+      }
+
+      try {
+        const { producerIds } = await this.mutePeer(room, peerId, kind);
+        this.recordAdminAudit(room, "mute", peerId, { kind: kind ?? null, producerIds });
+        res.status(204).end();
+      } catch (error) {
+        const err = error as Error;
+        console.error("Failed to mute peer:", err);
+        res.status(409).json({ error: err.message });
+      }
+    });
+
+    this.app.delete("/admin/rooms/:roomId/producers/:producerId", (req, res) => {
+      const { roomId, producerId } = req.params;
+      const room = this.roomManager.getRoom(roomId);
+      const peerId = room?.peerManager.getProducerPeerId(producerId);
+
+      if (!room || !peerId) {
+        res.status(404).json({ error: "Producer not found" });
+        return;
+      }
+
+      room.peerManager.removeProducer(peerId, producerId);
+      this.recordAdminAudit(room, "closeProducer", peerId, { producerId });
+      res.status(204).end();
+    });
+
+    this.app.get("/admin/rooms/:roomId/pipeline", (req, res) => {
+      const room = this.roomManager.getRoom(req.params.roomId);
+
+      if (!room) {
+        res.status(404).json({ error: "Room not found" });
+        return;
+      }
+
+      res.json(room.ffmpegService.getStats());
+    });
+
+    // Body: { action: "start" | "stop" | "restart" }
+    this.app.post("/admin/rooms/:roomId/pipeline", async (req, res) => {
+      const room = this.roomManager.getRoom(req.params.roomId);
+      const action = req.body?.action;
+
+      if (!room) {
+        res.status(404).json({ error: "Room not found" });
+        return;
+      }
+      if (!PIPELINE_ACTIONS.includes(action)) {
+        res.status(400).json({ error: `Action must be one of ${PIPELINE_ACTIONS.join(", ")}` });
+        return;
+      }
+
+      try {
+        const pipeline = await this.adminService.controlPipeline(room, action);
+        this.recordAdminAudit(room, "pipeline", undefined, { action });
+        res.json(pipeline);
+      } catch (error) {
+        const err = error as Error;
+        console.error("Failed to control pipeline:", err);
+        res.status(409).json({ error: err.message });
+      }
+    });
+  }
+
+  private recordAdminAudit(
+    room: Room,
+    action: AuditAction,
+    targetPeerId?: string,
+    details?: Record<string, unknown>
+  ): void {
+    this.auditLogService.record({
+      roomId: room.id,
+      action,
+      actor: { ...MODERATION.ADMIN_ACTOR },
+      targetPeerId,
+      details,
+    });
+  }
+
+  /**
+   * `/signaling/:roomId` tells clients which node to join a room on. The
+   * cascade API under `/cascade` is only open to other nodes.
+   */
+  private setupClusterRoutes(): void {
+    this.app.get("/signaling/:roomId", async (req, res, next) => {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+
+      if (!RoomManager.isValidRoomId(req.params.roomId)) {
+        res.status(400).json({ error: "Invalid room ID" });
+        return;
+      }
+
+      try {
+        const node = await this.cascadeService.selectNode(req.params.roomId);
+        res.json({ nodeId: node.id, url: node.publicUrl });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    this.app.use("/cascade", (req, res, next) => {
+      if (!this.cascadeService.isAuthorized(req.headers.authorization)) {
+        res.status(401).json({ error: "Invalid cluster secret" });
+        return;
+      }
+      next();
+    });
+
+    // Body: { nodeId, url, tuple } of the node that links to this origin
+    this.app.post("/cascade/rooms/:roomId/links", async (req, res) => {
+      const { nodeId, url, tuple } = req.body ?? {};
+
+      if (typeof nodeId !== "string" || typeof url !== "string" || !tuple) {
+        res.status(400).json({ error: "Missing nodeId, url or tuple" });
+        return;
+      }
+
+      try {
+        const room = await this.roomManager.getOrCreateRoom(req.params.roomId);
+        if (!room.isOrigin()) {
+          throw new Error(`Node ${this.cascadeService.nodeId} is not the origin`);
+        }
+        res.status(201).json(
+          await this.cascadeService.acceptLink(room, nodeId, url, tuple)
+        );
+      } catch (error) {
+        const err = error as Error;
+        console.error("Failed to accept cascade link:", err);
+        res.status(409).json({ error: err.message });
+      }
+    });
+
+    this.app.post("/cascade/rooms/:roomId/links/:nodeId/consume", async (req, res) => {
+      await this.handleCascadeRequest(req, res, (room, nodeId) =>
+        this.cascadeService.consumeForLink(room, nodeId, req.body?.producerId)
+      );
+    });
+
+    this.app.post("/cascade/rooms/:roomId/links/:nodeId/producers", async (req, res) => {
+      await this.handleCascadeRequest(req, res, async (room, nodeId) => {
+        await this.cascadeService.pipeIn(room, nodeId, req.body?.producerId);
+        return {};
+      });
+    });
+
+    // Body: { type, producerId } about a producer piped from the node
+    this.app.post("/cascade/rooms/:roomId/links/:nodeId/events", async (req, res) => {
+      await this.handleCascadeRequest(req, res, async (room, nodeId) => {
+        await this.cascadeService.handleEvent(
+          room,
+          nodeId,
+          req.body?.type as CascadeEventType,
+          req.body?.producerId
+        );
+        return {};
+      });
+    });
+
+    this.app.delete("/cascade/rooms/:roomId/links/:nodeId", async (req, res) => {
+      await this.handleCascadeRequest(req, res, async (room, nodeId) => {
+        await this.cascadeService.closeLink(room, nodeId, false);
+        return {};
+      });
+    });
+  }
+
+  private async handleCascadeRequest(
+    req: express.Request<{ roomId: string; nodeId: string }>,
+    res: express.Response,
+    handle: (room: Room, nodeId: string) => Promise<object>
+  ): Promise<void> {
+    const room = this.cascadeService.getRoom(req.params.roomId);
+
+    if (!room) {
+      res.status(404).json({ error: "Room not found" });
+      return;
+    }
+
+    try {
+      res.json(await handle(room, req.params.nodeId));
+    } catch (error) {
+      const err = error as Error;
+      console.error("Cascade request failed:", err);
+      res.status(409).json({ error: err.message });
+    }
+  }
+
+  /**
+   * Tells clients about the producers of peers on other nodes like about
+   * local ones.
+   */
+  private setupCascadeEventHandlers(): void {
+    const producerEvent = ({ producer, peerId, source }: RemoteProducer) => ({
+      producerId: producer.id,
+      peerId,
+      kind: producer.kind,
+      source,
+    });
+
+    this.cascadeService.on("producerAdded", (room, remote) => {
+      this.io.to(room.id).emit("new-producer", {
+        producerId: remote.producer.id,
+        peerId: remote.peerId,
+        name: remote.name,
+        source: remote.source,
+      });
+    });
+
+    this.cascadeService.on("producerClosed", (room, remote) => {
+      this.io.to(room.id).emit("producer-closed", producerEvent(remote));
+    });
+
+    this.cascadeService.on("producerPaused", (room, remote) => {
+      this.io.to(room.id).emit("producer-paused", producerEvent(remote));
+    });
+
+    this.cascadeService.on("producerResumed", (room, remote) => {
+      this.io.to(room.id).emit("producer-resumed", producerEvent(remote));
+    });
+
+    this.cascadeService.on("linkClosed", (room) => {
+      this.closeRoomIfIdle(room);
+    });
+  }
+
+  private setupRestreamRoutes(): void {
+    this.app.get("/rooms/:roomId/restreams", (req, res) => {
+      res.json(this.restreamService.listDestinations(req.params.roomId));
+    });
+
+    // Body: { url: string } with an rtmp://, rtmps:// or srt:// URL
+    this.app.post("/rooms/:roomId/restreams", (req, res) => {
+      const room = this.roomManager.getRoom(req.params.roomId);
+
+      if (!room) {
+        res.status(404).json({ error: "Room not found" });
+        return;
+      }
+
+      if (typeof req.body?.url !== "string") {
+        res.status(400).json({ error: "Missing destination url" });
+        return;
+      }
+
+      try {
+        const destination = this.restreamService.addDestination(
+          room,
+          req.body.url
+        );
+        res.status(201).json(destination);
+      } catch (error) {
+        const err = error as Error;
+        console.error("Failed to add restream destination:", err);
+        res.status(409).json({ error: err.message });
+      }
+    });
+
+    this.app.get("/rooms/:roomId/restreams/:destinationId", (req, res) => {
+      const destination = this.restreamService.getDestination(
+        req.params.roomId,
+        req.params.destinationId
+      );
+
+      if (!destination) {
+        res.status(404).json({ error: "Destination not found" });
+        return;
+      }
+
+      res.json(destination);
+    });
+
+    this.app.post(
+      "/rooms/:roomId/restreams/:destinationId/start",
+      (req, res) => {
+        const { roomId, destinationId } = req.params;
+
+        if (!this.restreamService.getDestination(roomId, destinationId)) {
+          res.status(404).json({ error: "Destination not found" });
+          return;
+        }
+
+        try {
+          res.json(this.restreamService.startDestination(roomId, destinationId));
+        } catch (error) {
+          const err = error as Error;
+          console.error("Failed to start restream:", err);
+          res.status(409).json({ error: err.message });
+        }
+      }
+    );
+
+    this.app.post(
+      "/rooms/:roomId/restreams/:destinationId/stop",
+      async (req, res) => {
+        try {
+          const destination = await this.restreamService.stopDestination(
+            req.params.roomId,
+            req.params.destinationId
+          );
+          res.json(destination);
+        } catch (error) {
+          const err = error as Error;
+          console.error("Failed to stop restream:", err);
+          res.status(404).json({ error: err.message });
+        }
+      }
+    );
+
+    this.app.delete(
+      "/rooms/:roomId/restreams/:destinationId",
+      async (req, res) => {
+        try {
+          const destination = await this.restreamService.removeDestination(
+            req.params.roomId,
+            req.params.destinationId
+          );
+          res.json(destination);
+        } catch (error) {
+          const err = error as Error;
+          console.error("Failed to remove restream destination:", err);
+          res.status(404).json({ error: err.message });
+        }
+      }
+    );
+  }
+
+  /**
+   * Serves the rooms' HLS output from `/live/<roomId>/`. Files stay
+   * available after a room closed until HlsCleanupService removes them.
+   */
+  private setupLiveRoutes(): void {
+    // The watch page is served by the Next app on another origin
+    this.app.use("/live", (_req, res, next) => {
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      next();
+    });
+
+    this.app.get("/live/:roomId/:file", async (req, res, next) => {
+      const { roomId, file } = req.params;
+
+      if (!RoomManager.isValidRoomId(roomId)) {
+        res.sendStatus(404);
+        return;
+      }
+
+      // Every URI in the playlists carries the token on to the next request
+      let tokenQuery: string | undefined;
+      if (this.authService.isEnabled()) {
+        try {
+          this.authService.authorize(req.query.token, roomId);
+        } catch (error) {
+          res.status(401).send((error as Error).message);
+          return;
+        }
+        tokenQuery = `token=${encodeURIComponent(String(req.query.token))}`;
+      }
+
+      const localRoom = this.roomManager.getRoom(roomId);
+
+      // Only the room's origin writes its HLS output
+      if (!localRoom?.isOrigin()) {
+        try {
+          const origin = await this.cascadeService.getRemoteOrigin(roomId);
+          if (origin) {
+            res.redirect(307, `${origin.publicUrl}${req.originalUrl}`);
+            return;
+          }
+        } catch (error) {
+          next(error);
+          return;
+        }
+      }
+
+      const lowLatencyHls = localRoom?.lowLatencyHls;
+      const root = path.resolve(config.hls.outputDirectory, roomId);
+
+      try {
+        if (
+          lowLatencyHls &&
+          (await this.sendLowLatencyHls(req, res, lowLatencyHls, file, tokenQuery))
+        ) {
+          return;
+        }
+
+        if (tokenQuery && file.endsWith(".m3u8")) {
+          await this.sendHlsPlaylist(res, file, root, tokenQuery);
+          return;
+        }
+
+        this.sendHlsFile(res, file, root);
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
+  private sendHlsFile(res: express.Response, file: string, root: string): void {
+    this.setHlsHeaders(res, file);
+
+    res.sendFile(file, { root, cacheControl: false }, (error) => {
+      if (!error || res.headersSent) return;
+
+      // Missing files must not be cached like the segments they stand for
+      res.removeHeader("Cache-Control");
+      res.sendStatus(404);
+    });
+  }
+
+  /**
+   * Sends a playlist from disk with the query added to its URIs.
+   */
+  private async sendHlsPlaylist(
+    res: express.Response,
+    file: string,
+    root: string,
+    query: string
+  ): Promise<void> {
+    const filePath = path.resolve(root, file);
+
+    let playlist: string;
+    try {
+      if (path.dirname(filePath) !== root) throw new Error("Outside of root");
+      playlist = await readFile(filePath, "utf8");
+    } catch {
+      res.sendStatus(404);
+      return;
+    }
+
+    this.setHlsHeaders(res, file);
+    res.send(addQueryToPlaylist(playlist, query));
+  }
+
+  private setHlsHeaders(res: express.Response, file: string): void {
+    const extension = path.extname(file);
+    const mimeType = HLS_HTTP.MIME_TYPES[extension];
+    const isSegment = HLS_HTTP.SEGMENT_EXTENSIONS.some(
+      (segmentExtension) => segmentExtension === extension
+    );
+
+    if (mimeType) {
+      res.type(mimeType);
+    }
+    res.set(
+      "Cache-Control",
+      isSegment
+        ? HLS_HTTP.SEGMENT_CACHE_CONTROL
+        : HLS_HTTP.PLAYLIST_CACHE_CONTROL
+    );
+  }
+
+  /**
+   * Sends the files that only exist in low-latency mode: the generated
+   * media playlists, the segments made of concatenated parts and parts that
+   * may still be in progress. Returns false for everything else, which is
+   * served from disk.
+   */
+  private async sendLowLatencyHls(
+    req: express.Request,
+    res: express.Response,
+    lowLatencyHls: LowLatencyHlsService,
+    file: string,
+    tokenQuery?: string
+  ): Promise<boolean> {
+    const variant = /^stream_(.+)\.m3u8$/.exec(file)?.[1];
+
+    if (variant && lowLatencyHls.hasVariant(variant)) {
+      await this.sendLowLatencyPlaylist(
+        req,
+        res,
+        lowLatencyHls,
+        variant,
+        tokenQuery
+      );
+      return true;
+    }
+
+    if (file.startsWith("segment_")) {
+      const segment = lowLatencyHls.getSegment(file);
+      if (!segment) {
+        res.sendStatus(404);
+        return true;
+      }
+      this.setHlsHeaders(res, file);
+      res.send(segment);
+      return true;
+    }
+
+    if (file.endsWith(".m4s")) {
+      const partPath = await lowLatencyHls.getPartPath(file);
+      if (!partPath) {
+        res.sendStatus(404);
+        return true;
+      }
+      this.sendHlsFile(res, path.basename(partPath), path.dirname(partPath));
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Handles the `_HLS_msn` and `_HLS_part` directives of a blocking
+   * playlist reload.
+   */
+  private async sendLowLatencyPlaylist(
+    req: express.Request,
+    res: express.Response,
+    lowLatencyHls: LowLatencyHlsService,
+    variant: string,
+    tokenQuery?: string
+  ): Promise<void> {
+    const { _HLS_msn: msnParam, _HLS_part: partParam } = req.query;
+    const msn = msnParam === undefined ? undefined : Number(msnParam);
+    const part = partParam === undefined ? undefined : Number(partParam);
+
+    if (
+      (msn !== undefined && !Number.isInteger(msn)) ||
+      (part !== undefined && (msn === undefined || !Number.isInteger(part)))
+    ) {
+      res.status(400).send("Invalid _HLS_msn or _HLS_part");
+      return;
+    }
+
+    if (msn !== undefined && lowLatencyHls.isBeyondLiveEdge(variant, msn)) {
+      res.status(400).send("_HLS_msn is too far beyond the live edge");
+      return;
+    }
+
+    const playlist = await lowLatencyHls.getMediaPlaylist(variant, msn, part);
+    if (playlist === null) {
+      res.sendStatus(404);
+      return;
+    }
+
+    this.setHlsHeaders(res, `stream_${variant}.m3u8`);
+    res.send(tokenQuery ? addQueryToPlaylist(playlist, tokenQuery) : playlist);
+  }
+
+  private setupSocketHandlers(): void {
+    // Resolve the room before the connection is accepted so that no event
+    // can arrive while its router is still being created
+    this.io.use(async (socket, next) => {
+      try {
+        const claims = this.authenticate(socket);
+        const roomId = this.getRequestedRoomId(socket, claims);
+
+        if (claims && claims.room !== roomId) {
+          throw new Error(`Token is not valid for room ${roomId}`);
+        }
+
+        const room = await this.roomManager.getOrCreateRoom(roomId);
+        const role = claims?.role ?? this.authService.getAnonymousRole();
+
+        const peerId = this.getSessionPeerId(socket, room, claims);
+
+        // Peers that are still in the room may resume their session
+        if (
+          room.getSettings().locked &&
+          role !== "host" &&
+          !room.peerManager.getPeer(peerId)
+        ) {
+          throw new Error("Room is locked");
+        }
+
+        socket.data.roomId = roomId;
+        socket.data.peerId = peerId;
+        socket.data.userId = claims?.sub ?? peerId;
+        socket.data.role = role;
+        socket.data.name = this.getRequestedName(socket, claims, peerId);
+        next();
+      } catch (error) {
+        const err = error as Error;
+        console.error("Failed to join room:", err);
+        next(err);
+      }
+    });
+
+    this.io.on("connection", (socket: Socket) => {
+      this.handleConnection(socket);
+    });
+  }
+
+  /**
+   * Forwards a room's lifecycle events to its clients. Consumer and
+   * transport events only go to the peer that owns them. Every socket joins
+   * a channel named after its peer ID.
+   */
+  private setupRoomEventHandlers(room: Room): void {
+    const { peerManager } = room;
+
+    peerManager.on("peerJoined", (event) => {
+      this.io.to(room.id).except(event.peerId).emit("peer-joined", event);
+    });
+
+    peerManager.on("peerLeft", (event) => {
+      this.io.to(room.id).emit("peer-left", event);
+      this.closeRoomIfIdle(room);
+    });
+
+    peerManager.on("peerDisconnected", (event) => {
+      this.io.to(room.id).emit("peer-disconnected", event);
+    });
+
+    peerManager.on("peerReconnected", (event) => {
+      this.io.to(room.id).except(event.peerId).emit("peer-reconnected", event);
+    });
+
+    peerManager.on("producerClosed", (event) => {
+      this.io.to(room.id).emit("producer-closed", event);
+    });
+
+    peerManager.on("producerPaused", (event) => {
+      this.io.to(room.id).emit("producer-paused", event);
+    });
+
+    peerManager.on("producerResumed", (event) => {
+      this.io.to(room.id).emit("producer-resumed", event);
+    });
+
+    peerManager.on("consumerClosed", (event) => {
+      this.io.to(event.peerId).emit("consumer-closed", event);
+    });
+
+    peerManager.on("consumerLayersChanged", (event) => {
+      this.io.to(event.peerId).emit("consumer-layers-changed", event);
+    });
+
+    peerManager.on("transportStateChanged", (event) => {
+      this.io.to(event.peerId).emit("transport-state", event);
+    });
+
+    room.ffmpegService.on("stateChanged", (event) => {
+      console.info(`FFmpeg of room ${room.id} is ${event.state}`);
+      this.io.to(room.id).emit("pipeline-state", event);
+    });
+  }
+
+  /**
+   * Verifies the token from the handshake's `auth.token` (or the `token`
+   * query parameter). Returns null while authentication is off.
+   */
+  private authenticate(socket: Socket): AuthClaims | null {
+    if (!this.authService.isEnabled()) {
+      return null;
+    }
+
+    return this.authService.verify(
+      socket.handshake.auth?.token ?? socket.handshake.query.token
+    );
+  }
+
+  /**
+   * Peer ID for the connection. The handshake's `auth.peerId` resumes a
+   * peer that is still in the room if `auth.resumeToken` is the token that
+   * peer got in `joined`, and the token belongs to the same user. Otherwise
+   * a new ID is issued.
+   */
+  private getSessionPeerId(
+    socket: Socket,
+    room: Room,
+    claims: AuthClaims | null
+  ): string {
+    const { peerId, resumeToken } = socket.handshake.auth ?? {};
+
+    if (
+      typeof peerId !== "string" ||
+      !room.peerManager.isResumeToken(peerId, resumeToken)
+    ) {
+      return randomUUID();
+    }
+
+    const peer = room.peerManager.getPeer(peerId)!;
+    if (claims && peer.userId !== claims.sub) {
+      return randomUUID();
+    }
+
+    return peerId;
+  }
+
+  /**
+   * Room from the handshake query `roomId`, else from the token, else the
+   * default room.
+   */
+  private getRequestedRoomId(socket: Socket, claims: AuthClaims | null): string {
+    const { roomId } = socket.handshake.query;
+
+    if (roomId === undefined || roomId === "") {
+      return claims?.room ?? config.rooms.defaultRoomId;
+    }
+
+    if (typeof roomId !== "string" || !RoomManager.isValidRoomId(roomId)) {
+      throw new Error("Invalid room ID");
+    }
+
+    return roomId;
+  }
+
+  /**
+   * Display name from the token or the handshake query `name`. It is drawn
+   * into the composite, so only letters, digits, spaces and `_.-` are kept.
+   */
+  private getRequestedName(
+    socket: Socket,
+    claims: AuthClaims | null,
+    peerId: string
+  ): string {
+    const name = claims?.name ?? socket.handshake.query.name;
+    const sanitized =
+      typeof name === "string"
+        ? name.replace(/[^\p{L}\p{N} _.-]/gu, "").trim().slice(0, 32)
+        : "";
+
+    return sanitized || `Guest ${peerId.slice(0, 4)}`;
   }
 
   private handleConnection(socket: Socket): void {
-    console.info("Client connected:", socket.id);
-    
-    this.peerManager.addPeer(socket.id);
-    
+    const room = this.roomManager.getRoom(socket.data.roomId);
+
+    if (!room) {
+      // The room was torn down between the handshake and the connection
+      console.warn("Room closed before client connected:", socket.id);
+      socket.disconnect(true);
+      return;
+    }
+
+    const { peerId } = socket.data;
+    const existingPeer = room.peerManager.getPeer(peerId);
+    // A reloaded page resumes its session without the transports it had
+    const resumed =
+      existingPeer !== undefined && socket.handshake.auth?.hasTransports === true;
+
+    console.info(`Client connected to room ${room.id}:`, peerId, socket.id);
+
+    socket.join([room.id, peerId]);
+
+    if (existingPeer) {
+      // The old connection may not have noticed yet that it dropped
+      const previousSocketId = existingPeer.socketId;
+      room.peerManager.reconnectPeer(peerId, socket.id);
+      socket.data.name = existingPeer.name;
+      if (previousSocketId) {
+        this.io.sockets.sockets.get(previousSocketId)?.disconnect(true);
+      }
+      if (!resumed) {
+        room.peerManager.closePeerMedia(peerId);
+      }
+    } else {
+      room.peerManager.addPeer(
+        peerId,
+        socket.id,
+        socket.data.name,
+        socket.data.role,
+        socket.data.userId
+      );
+      this.recordingService.handlePeerJoined(room.id, peerId);
+    }
+
+    // A resumed peer still has its transports and producers on the server.
+    // The resume token only ever goes to the peer's own connection.
+    socket.emit("joined", {
+      peerId,
+      name: socket.data.name,
+      role: socket.data.role,
+      resumed,
+      resumeToken: room.peerManager.getPeer(peerId)!.resumeToken,
+    });
+    socket.emit("room-updated", room.getSettings());
+
     // Send existing producers to the newly connected client
-    const existingProducers = this.peerManager.getExistingProducers(socket.id);
+    const existingProducers = room.getExistingProducers(peerId);
     socket.emit("existingProducers", existingProducers);
 
-    this.setupSocketEventHandlers(socket);
+    this.setupSocketEventHandlers(socket, room);
 
     socket.on("disconnect", () => {
-      this.handleDisconnection(socket.id);
+      this.handleDisconnection(socket, room);
     });
   }
 
-  private setupSocketEventHandlers(socket: Socket): void {
+  private setupSocketEventHandlers(socket: Socket, room: Room): void {
+    const { peerId } = socket.data;
+
     socket.on("getRouterRtpCapabilities", (callback) => {
-      this.handleGetRouterRtpCapabilities(callback);
+      this.handleGetRouterRtpCapabilities(room, callback);
     });
 
     socket.on("createWebRtcTransport", (data: SocketEventPayloads["createWebRtcTransport"], callback) => {
-      this.handleCreateWebRtcTransport(socket.id, data, callback);
+      this.handleCreateWebRtcTransport(room, peerId, data, callback);
     });
 
     socket.on("connectWebRtcTransport", (data: SocketEventPayloads["connectWebRtcTransport"], callback) => {
-      this.handleConnectWebRtcTransport(socket.id, data, callback);
+      this.handleConnectWebRtcTransport(room, peerId, data, callback);
     });
 
     socket.on("produce", (data: SocketEventPayloads["produce"], callback) => {
-      this.handleProduce(socket, data, callback);
+      this.handleProduce(room, socket, data, callback);
+    });
+
+    socket.on("closeProducer", (data: SocketEventPayloads["closeProducer"], callback) => {
+      this.handleCloseProducer(room, peerId, data, callback);
+    });
+
+    socket.on("restartIce", (data: SocketEventPayloads["restartIce"], callback) => {
+      this.handleRestartIce(room, peerId, data, callback);
     });
 
     socket.on("consume", (data: SocketEventPayloads["consume"], callback) => {
-      this.handleConsume(socket.id, data, callback);
+      this.handleConsume(room, socket, data, callback);
     });
 
     socket.on("resume", (data: SocketEventPayloads["resume"], callback) => {
-      this.handleResume(socket.id, data, callback);
+      this.handleResume(room, peerId, data, callback);
+    });
+
+    socket.on("pauseProducer", (data: SocketEventPayloads["pauseProducer"], callback) => {
+      this.handleSetProducerPaused(room, peerId, data, true, callback);
+    });
+
+    socket.on("resumeProducer", (data: SocketEventPayloads["resumeProducer"], callback) => {
+      this.handleSetProducerPaused(room, peerId, data, false, callback);
+    });
+
+    socket.on("setPreferredLayers", (data: SocketEventPayloads["setPreferredLayers"], callback) => {
+      this.handleSetPreferredLayers(room, peerId, data, callback);
+    });
+
+    socket.on("setPriority", (data: SocketEventPayloads["setPriority"], callback) => {
+      this.handleSetPriority(room, peerId, data, callback);
+    });
+
+    socket.on("setConsumerTileSize", (data: SocketEventPayloads["setConsumerTileSize"], callback) => {
+      this.handleSetConsumerTileSize(room, peerId, data, callback);
+    });
+
+    socket.on("kickPeer", (data: SocketEventPayloads["kickPeer"], callback) => {
+      this.handleKickPeer(room, socket, data, callback);
+    });
+
+    socket.on("mutePeer", (data: SocketEventPayloads["mutePeer"], callback) => {
+      this.handleMutePeer(room, socket, data, callback);
+    });
+
+    socket.on("unmutePeer", (data: SocketEventPayloads["unmutePeer"], callback) => {
+      this.handleUnmutePeer(room, socket, data, callback);
+    });
+
+    socket.on("lockRoom", (data: SocketEventPayloads["lockRoom"], callback) => {
+      this.handleLockRoom(room, socket, data, callback);
+    });
+
+    socket.on("setPublisherLimit", (data: SocketEventPayloads["setPublisherLimit"], callback) => {
+      this.handleSetPublisherLimit(room, socket, data, callback);
+    });
+  }
+
+  private handleKickPeer(
+    room: Room,
+    socket: Socket,
+    data: SocketEventPayloads["kickPeer"] | undefined,
+    callback: ((response?: { error: string }) => void) | undefined
+  ): void {
+    if (typeof callback !== "function") return;
+
+    try {
+      this.assertModerator(socket);
+      this.assertPeerTarget(data);
+
+      if (!room.peerManager.getPeer(data.peerId)) {
+        throw new Error(`Peer ${data.peerId} not found`);
+      }
+      if (data.peerId === socket.data.peerId) {
+        throw new Error("Hosts cannot kick themselves");
+      }
+
+      const reason = this.kickPeer(room, data.peerId, data.reason);
+      this.recordAudit(room, socket, "kick", data.peerId, { reason });
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to kick peer:", err);
+      callback({ error: err.message });
+    }
+  }
+
+  /**
+   * Closes a peer's transports and disconnects it. The peer learns why
+   * through `kicked`, everyone else through `peer-kicked`. Returns the
+   * reason as sent.
+   */
+  private kickPeer(room: Room, peerId: string, reason: unknown): string | undefined {
+    const sentReason =
+      typeof reason === "string"
+        ? reason.slice(0, MODERATION.MAX_REASON_LENGTH)
+        : undefined;
+
+    // Removing the peer first keeps the disconnect from starting a grace period
+    this.io.to(peerId).emit("kicked", { reason: sentReason });
+    room.peerManager.removePeer(peerId);
+    this.io.in(peerId).disconnectSockets(true);
+
+    this.io.to(room.id).emit("peer-kicked", { peerId, reason: sentReason });
+    return sentReason;
+  }
+
+  private async handleMutePeer(
+    room: Room,
+    socket: Socket,
+    data: SocketEventPayloads["mutePeer"] | undefined,
+    callback: ((response?: { error: string }) => void) | undefined
+  ): Promise<void> {
+    if (typeof callback !== "function") return;
+
+    try {
+      this.assertModerator(socket);
+      this.assertPeerTarget(data);
+
+      const { kind, producerIds } = await this.mutePeer(room, data.peerId, data.kind);
+      this.recordAudit(room, socket, "mute", data.peerId, { kind, producerIds });
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to mute peer:", err);
+      callback({ error: err.message });
+    }
+  }
+
+  private handleUnmutePeer(
+    room: Room,
+    socket: Socket,
+    data: SocketEventPayloads["unmutePeer"] | undefined,
+    callback: ((response?: { error: string }) => void) | undefined
+  ): void {
+    if (typeof callback !== "function") return;
+
+    try {
+      this.assertModerator(socket);
+      this.assertPeerTarget(data);
+
+      const peer = room.peerManager.getPeer(data.peerId);
+      if (!peer) {
+        throw new Error(`Peer ${data.peerId} not found`);
+      }
+
+      if (data.kind) {
+        peer.mutedKinds.delete(data.kind);
+      } else {
+        peer.mutedKinds.clear();
+      }
+
+      const kind = data.kind ?? null;
+      this.io.to(room.id).emit("peer-unmuted", { peerId: data.peerId, kind });
+      this.recordAudit(room, socket, "unmute", data.peerId, { kind });
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to unmute peer:", err);
+      callback({ error: err.message });
+    }
+  }
+
+  /**
+   * Pauses a peer's producers on the server and keeps the peer from
+   * resuming them, or producing the kind unpaused, until a host unmutes it.
+   * Returns the `peer-muted` event.
+   */
+  private async mutePeer(
+    room: Room,
+    peerId: string,
+    kind?: types.MediaKind
+  ): Promise<{ peerId: string; kind: types.MediaKind | null; producerIds: string[] }> {
+    const peer = room.peerManager.getPeer(peerId);
+    if (!peer) {
+      throw new Error(`Peer ${peerId} not found`);
+    }
+
+    (kind ? [kind] : (["audio", "video"] as const)).forEach((mutedKind) =>
+      peer.mutedKinds.add(mutedKind)
+    );
+
+    const producers = [...peer.producers.values()].filter(
+      (producer) => !kind || producer.kind === kind
+    );
+    await Promise.all(
+      producers.map((producer) =>
+        room.peerManager.setProducerPaused(peerId, producer.id, true)
+      )
+    );
+
+    const event = {
+      peerId,
+      kind: kind ?? null,
+      producerIds: producers.map((producer) => producer.id),
+    };
+    this.io.to(room.id).emit("peer-muted", event);
+    return event;
+  }
+
+  private handleLockRoom(
+    room: Room,
+    socket: Socket,
+    data: SocketEventPayloads["lockRoom"] | undefined,
+    callback: ((response?: { error: string }) => void) | undefined
+  ): void {
+    if (typeof callback !== "function") return;
+
+    try {
+      this.assertModerator(socket);
+      if (typeof data?.locked !== "boolean") {
+        throw new Error("locked must be a boolean");
+      }
+
+      room.setLocked(data.locked);
+      this.io.to(room.id).emit("room-updated", room.getSettings());
+      this.recordAudit(room, socket, data.locked ? "lock" : "unlock");
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to lock room:", err);
+      callback({ error: err.message });
+    }
+  }
+
+  private handleSetPublisherLimit(
+    room: Room,
+    socket: Socket,
+    data: SocketEventPayloads["setPublisherLimit"] | undefined,
+    callback: ((response?: { error: string }) => void) | undefined
+  ): void {
+    if (typeof callback !== "function") return;
+
+    try {
+      this.assertModerator(socket);
+      if (!data || (data.limit !== null && typeof data.limit !== "number")) {
+        throw new Error("limit must be a number or null");
+      }
+
+      room.setPublisherLimit(data.limit);
+      this.io.to(room.id).emit("room-updated", room.getSettings());
+      this.recordAudit(room, socket, "publisherLimit", undefined, {
+        limit: data.limit,
+      });
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to set publisher limit:", err);
+      callback({ error: err.message });
+    }
+  }
+
+  private assertModerator(socket: Socket): void {
+    if (!AuthService.can(socket.data.role, "moderate")) {
+      throw new Error(`Role ${socket.data.role} may not moderate`);
+    }
+  }
+
+  // Payload of a moderation command that targets a peer and maybe a kind
+  private assertPeerTarget<T extends { peerId: string; kind?: types.MediaKind }>(
+    data: T | undefined
+  ): asserts data is T {
+    if (!data || typeof data.peerId !== "string") {
+      throw new Error("peerId is required");
+    }
+    if (data.kind !== undefined && data.kind !== "audio" && data.kind !== "video") {
+      throw new Error("kind must be audio or video");
+    }
+  }
+
+  private recordAudit(
+    room: Room,
+    socket: Socket,
+    action: AuditAction,
+    targetPeerId?: string,
+    details?: Record<string, unknown>
+  ): void {
+    this.auditLogService.record({
+      roomId: room.id,
+      action,
+      actor: {
+        peerId: socket.data.peerId,
+        userId: socket.data.userId,
+        name: socket.data.name,
+      },
+      targetPeerId,
+      details,
     });
   }
 
-  private handleDisconnection(socketId: string): void {
-    this.peerManager.removePeer(socketId);
-    console.info("Client disconnected:", socketId);
+  /**
+   * Keeps the peer for the reconnection grace period. Sockets that were
+   * replaced by a newer connection or belong to a removed peer are ignored.
+   */
+  private handleDisconnection(socket: Socket, room: Room): void {
+    const { peerId } = socket.data;
+    console.info(`Client disconnected from room ${room.id}:`, peerId, socket.id);
+
+    if (room.peerManager.getPeer(peerId)?.socketId !== socket.id) {
+      return;
+    }
+
+    room.peerManager.disconnectPeer(peerId, config.rooms.reconnectGracePeriod);
+  }
+
+  /**
+   * Stops the room's recording and restreams and closes it once its last
+   * peer left and, on its origin, no other node cascades it.
+   */
+  private async closeRoomIfIdle(room: Room): Promise<void> {
+    if (!room.isEmpty()) return;
+
+    try {
+      if (this.recordingService.isRecording(room.id)) {
+        await this.recordingService.stopRoomRecording(room.id);
+      }
+      await this.restreamService.removeRoomDestinations(room.id);
+      await this.roomManager.closeRoomIfEmpty(room.id);
+    } catch (error) {
+      console.error(`Failed to close room ${room.id}:`, error);
+    }
   }
 
-  private handleGetRouterRtpCapabilities(callback: (capabilities: types.RtpCapabilities) => void): void {
+  private handleGetRouterRtpCapabilities(
+    room: Room,
+    callback: (capabilities: types.RtpCapabilities) => void
+  ): void {
     try {
-      const capabilities = this.mediasoupService.getRtpCapabilities();
+      const capabilities = room.mediasoupService.getRtpCapabilities();
       callback(capabilities);
     } catch (error) {
       console.error("Failed to get router RTP capabilities:", error);
@@ -115,13 +1477,16 @@ class WebRTCServer {
   }
 
   private async handleCreateWebRtcTransport(
-    socketId: string,
+    room: Room,
+    peerId: string,
     data: SocketEventPayloads["createWebRtcTransport"],
     callback: (response: TransportInfo | { error: string }) => void
   ): Promise<void> {
     try {
-      const transport = await this.mediasoupService.createWebRtcTransport();
-      this.peerManager.addTransport(socketId, transport);
+      const transport = await room.mediasoupService.createWebRtcTransport(
+        data.isSender === true
+      );
+      room.peerManager.addTransport(peerId, transport);
 
       callback({
         id: transport.id,
@@ -137,12 +1502,13 @@ class WebRTCServer {
   }
 
   private async handleConnectWebRtcTransport(
-    socketId: string,
+    room: Room,
+    peerId: string,
     data: SocketEventPayloads["connectWebRtcTransport"],
     callback: (response?: { error: string }) => void
   ): Promise<void> {
     try {
-      const transport = this.peerManager.getTransport(socketId, data.transportId);
+      const transport = room.peerManager.getTransport(peerId, data.transportId);
       
       if (!transport) {
         console.error("Transport not found for connect:", data.transportId);
@@ -159,36 +1525,75 @@ class WebRTCServer {
   }
 
   private async handleProduce(
+    room: Room,
     socket: Socket,
     data: SocketEventPayloads["produce"],
     callback: (response: { id: string } | { error: string }) => void
   ): Promise<void> {
     try {
-      const transport = this.peerManager.getTransport(socket.id, data.transportId);
+      if (!AuthService.can(socket.data.role, "produce")) {
+        return callback({ error: `Role ${socket.data.role} may not produce` });
+      }
+
+      if (!room.canPublish(socket.data.peerId)) {
+        return callback({ error: "Publisher limit reached" });
+      }
+
+      const transport = room.peerManager.getTransport(socket.data.peerId, data.transportId);
       
       if (!transport) {
         console.error("Transport not found for produce:", data.transportId);
         return callback({ error: "Transport not found" });
       }
 
+      const kind = data.kind as types.MediaKind;
+      const source = data.appData?.source ?? (kind === "video" ? "camera" : "microphone");
+
+      if (!PRODUCER_SOURCES.includes(source)) {
+        return callback({ error: `Invalid producer source ${source}` });
+      }
+
+      if (source === "screen" && kind === "video" && room.peerManager.isSharingScreen(socket.data.peerId)) {
+        return callback({ error: "Already sharing a screen" });
+      }
+
       const producer = await transport.produce({
-        kind: data.kind as types.MediaKind,
+        kind,
         rtpParameters: data.rtpParameters,
+        // A muted peer cannot get around the mute with a new producer
+        paused: room.peerManager.getPeer(socket.data.peerId)?.mutedKinds.has(kind),
+        appData: { source },
       });
 
-      this.peerManager.addProducer(socket.id, producer);
+      // Add the producer to the room's HLS composite. A producer that cannot
+      // be broadcast, e.g. because no RTP ports are left, is rejected.
+      try {
+        await room.createRtpConsumerForProducer(producer, socket.data.peerId, source);
+      } catch (error) {
+        producer.close();
+        throw error;
+      }
+
+      room.peerManager.addProducer(socket.data.peerId, producer, source);
+      this.cascadeService.announceProducer(room, producer.id);
 
-      // Create RTP consumer for this producer
-      await this.createRtpConsumerForProducer(producer, socket.id);
+      // Record the producer if the room is recorded per producer
+      this.recordingService
+        .handleNewProducer(room, producer, socket.data.peerId)
+        .catch((error) => {
+          console.error("Failed to record producer:", error);
+        });
 
-      // Notify other clients about the new producer
-      socket.broadcast.emit("new-producer", {
+      // Notify other clients in the room about the new producer
+      socket.to(room.id).emit("new-producer", {
         producerId: producer.id,
-        socketId: socket.id,
+        peerId: socket.data.peerId,
+        name: socket.data.name,
+        source,
       });
 
       // Send existing producers to this client
-      const existingProducers = this.peerManager.getExistingProducers(socket.id);
+      const existingProducers = room.getExistingProducers(socket.data.peerId);
       if (existingProducers.length > 0) {
         socket.emit("existingProducers", existingProducers);
       }
@@ -201,19 +1606,60 @@ class WebRTCServer {
     }
   }
 
+  /**
+   * Restarts ICE on one of the peer's transports, e.g. after the client's
+   * network changed. The client applies the returned ICE parameters.
+   */
+  private async handleRestartIce(
+    room: Room,
+    peerId: string,
+    data: SocketEventPayloads["restartIce"] | undefined,
+    callback:
+      | ((response: { iceParameters: types.IceParameters } | { error: string }) => void)
+      | undefined
+  ): Promise<void> {
+    if (typeof callback !== "function") return;
+
+    try {
+      if (!data || typeof data.transportId !== "string") {
+        throw new Error("transportId is required");
+      }
+
+      const transport = room.peerManager.getTransport(peerId, data.transportId);
+
+      if (!transport) {
+        return callback({ error: "Transport not found" });
+      }
+
+      const iceParameters = await transport.restartIce();
+      callback({ iceParameters });
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to restart ICE:", err);
+      callback({ error: err.message });
+    }
+  }
+
   private async handleConsume(
-    socketId: string,
+    room: Room,
+    socket: Socket,
     data: SocketEventPayloads["consume"],
     callback: (response: ConsumerInfo | { error: string }) => void
   ): Promise<void> {
+    const peerId = socket.data.peerId;
+
     try {
-      const transport = this.peerManager.getTransport(socketId, data.transportId);
+      if (!AuthService.can(socket.data.role, "consume")) {
+        return callback({ error: `Role ${socket.data.role} may not consume` });
+      }
+
+      const transport = room.peerManager.getTransport(peerId, data.transportId);
       
       if (!transport) {
         return callback({ error: "Receiving transport not found" });
       }
 
-      if (!this.mediasoupService.canConsume({
+      if (!room.mediasoupService.canConsume({
         producerId: data.producerId,
         rtpCapabilities: data.rtpCapabilities,
       })) {
@@ -221,19 +1667,25 @@ class WebRTCServer {
         return callback({ error: "Cannot consume" });
       }
 
+      await room.mediasoupService.pipeProducerToTransport(
+        data.producerId,
+        transport
+      );
+
       const consumer = await transport.consume({
         producerId: data.producerId,
         rtpCapabilities: data.rtpCapabilities,
         paused: true,
       });
 
-      this.peerManager.addConsumer(socketId, consumer);
+      room.peerManager.addConsumer(peerId, consumer);
 
       callback({
         id: consumer.id,
         producerId: data.producerId,
         kind: consumer.kind,
         rtpParameters: consumer.rtpParameters,
+        producerPaused: consumer.producerPaused,
       });
     } catch (error) {
       const err = error as Error;
@@ -243,12 +1695,13 @@ class WebRTCServer {
   }
 
   private async handleResume(
-    socketId: string,
+    room: Room,
+    peerId: string,
     data: SocketEventPayloads["resume"],
     callback: (response?: { error: string }) => void
   ): Promise<void> {
     try {
-      const consumer = this.peerManager.getConsumer(socketId, data.consumerId);
+      const consumer = room.peerManager.getConsumer(peerId, data.consumerId);
       
       if (!consumer) {
         console.error("Consumer not found for resume:", data.consumerId);
@@ -264,24 +1717,167 @@ class WebRTCServer {
     }
   }
 
-  private async createRtpConsumerForProducer(
-    producer: types.Producer,
-    socketId: string
+  /**
+   * Pauses or resumes one of the peer's producers on the server. Other peers
+   * learn about it through the producer-paused / producer-resumed events.
+   * Kinds a host muted cannot be resumed.
+   */
+  private async handleSetProducerPaused(
+    room: Room,
+    peerId: string,
+    data: SocketEventPayloads["pauseProducer"] | undefined,
+    paused: boolean,
+    callback: ((response?: { error: string }) => void) | undefined
   ): Promise<void> {
-    const transportIndex = this.peerManager.getProducerTransportIndex(socketId);
-    
-    if (transportIndex === -1) {
-      console.error(`Invalid transport index for peer ${socketId}`);
-      return;
+    if (typeof callback !== "function") return;
+
+    try {
+      if (!data || typeof data.producerId !== "string") {
+        throw new Error("producerId is required");
+      }
+
+      const peer = room.peerManager.getPeer(peerId);
+      const producer = peer?.producers.get(data.producerId);
+      if (!paused && producer && peer?.mutedKinds.has(producer.kind)) {
+        throw new Error(`A host muted your ${producer.kind}`);
+      }
+
+      await room.peerManager.setProducerPaused(peerId, data.producerId, paused);
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error(`Failed to ${paused ? "pause" : "resume"} producer:`, err);
+      callback({ error: err.message });
     }
+  }
 
-    const consumer = await this.mediasoupService.createRtpConsumer(
-      producer,
-      transportIndex
-    );
+  private handleCloseProducer(
+    room: Room,
+    peerId: string,
+    data: SocketEventPayloads["closeProducer"] | undefined,
+    callback: ((response?: { error: string }) => void) | undefined
+  ): void {
+    if (typeof callback !== "function") return;
 
-    if (consumer) {
-      this.peerManager.setProducerAssignment(producer.id, transportIndex);
+    try {
+      if (!data || typeof data.producerId !== "string") {
+        throw new Error("producerId is required");
+      }
+      room.peerManager.removeProducer(peerId, data.producerId);
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to close producer:", err);
+      callback({ error: err.message });
+    }
+  }
+
+  private async handleSetPreferredLayers(
+    room: Room,
+    peerId: string,
+    data: SocketEventPayloads["setPreferredLayers"] | undefined,
+    callback: ((response?: { error: string }) => void) | undefined
+  ): Promise<void> {
+    if (typeof callback !== "function") return;
+
+    try {
+      if (!data || typeof data.consumerId !== "string") {
+        throw new Error("consumerId is required");
+      }
+      if (
+        !isLayerIndex(data.spatialLayer) ||
+        (data.temporalLayer !== undefined && !isLayerIndex(data.temporalLayer))
+      ) {
+        throw new Error("Layers must be non-negative integers");
+      }
+
+      const consumer = room.peerManager.getConsumer(peerId, data.consumerId);
+
+      if (!consumer) {
+        return callback({ error: "Consumer not found" });
+      }
+
+      await consumer.setPreferredLayers({
+        spatialLayer: data.spatialLayer,
+        temporalLayer: data.temporalLayer,
+      });
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to set preferred layers:", err);
+      callback({ error: err.message });
+    }
+  }
+
+  private async handleSetPriority(
+    room: Room,
+    peerId: string,
+    data: SocketEventPayloads["setPriority"] | undefined,
+    callback: ((response?: { error: string }) => void) | undefined
+  ): Promise<void> {
+    if (typeof callback !== "function") return;
+
+    try {
+      if (!data || typeof data.consumerId !== "string") {
+        throw new Error("consumerId is required");
+      }
+      if (
+        !Number.isInteger(data.priority) ||
+        data.priority < 1 ||
+        data.priority > SIMULCAST.MAX_PRIORITY
+      ) {
+        throw new Error(`Priority must be an integer from 1 to ${SIMULCAST.MAX_PRIORITY}`);
+      }
+
+      const consumer = room.peerManager.getConsumer(peerId, data.consumerId);
+
+      if (!consumer) {
+        return callback({ error: "Consumer not found" });
+      }
+
+      await consumer.setPriority(data.priority);
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to set consumer priority:", err);
+      callback({ error: err.message });
+    }
+  }
+
+  /**
+   * Automatic layer selection: the consumer gets the lowest layer that fills
+   * its tile, and a priority that grows with the tile. Within these limits
+   * mediasoup switches layers by the transport's bandwidth estimate.
+   */
+  private async handleSetConsumerTileSize(
+    room: Room,
+    peerId: string,
+    data: SocketEventPayloads["setConsumerTileSize"] | undefined,
+    callback: ((response?: { error: string }) => void) | undefined
+  ): Promise<void> {
+    if (typeof callback !== "function") return;
+
+    try {
+      if (!data || typeof data.consumerId !== "string") {
+        throw new Error("consumerId is required");
+      }
+      if (!isTileDimension(data.width) || !isTileDimension(data.height)) {
+        throw new Error("Tile size must be non-negative numbers");
+      }
+
+      const consumer = room.peerManager.getConsumer(peerId, data.consumerId);
+
+      if (!consumer) {
+        return callback({ error: "Consumer not found" });
+      }
+
+      await consumer.setPreferredLayers(selectLayersForTile(consumer, data.height));
+      await consumer.setPriority(getPriorityForTile(data.width, data.height));
+      callback();
+    } catch (error) {
+      const err = error as Error;
+      console.error("Failed to apply consumer tile size:", err);
+      callback({ error: err.message });
     }
   }
 
@@ -308,15 +1904,18 @@ class WebRTCServer {
     console.info("Starting cleanup...");
     
     try {
-      // Stop FFmpeg process
-      this.ffmpegService.stop();
-      
-      // Cleanup all peers
-      const peerIds = this.peerManager.getAllPeerIds();
-      peerIds.forEach(peerId => this.peerManager.removePeer(peerId));
+      this.hlsCleanupService.stop();
+
+      // Finalize running recordings and disconnect from restream targets
+      await this.recordingService.stopAll();
+      await this.restreamService.stopAll();
+
+      // Close all rooms with their FFmpeg processes, peers and routers
+      await this.roomManager.closeAll();
+      await this.cascadeService.stop();
       
-      // Cleanup MediaSoup resources
-      await this.mediasoupService.cleanup();
+      // Cleanup MediaSoup worker
+      await this.workerService.cleanup();
       
       // Close Socket.io server
       this.io.close();
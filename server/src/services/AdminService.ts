@@ -0,0 +1,227 @@
+import type { types } from "mediasoup";
+import { config } from "../config";
+import type {
+  AdminPeerInfo,
+  AdminRoomDetails,
+  AdminRoomInfo,
+  AdminStats,
+  AdminStreamStats,
+  FFmpegStats,
+  PipelineAction,
+} from "../types";
+import { isBearerToken } from "../utils/bearer";
+import type { Room } from "./Room";
+import type { RoomManager } from "./RoomManager";
+
+type StatsSource =
+  | { type: "transport"; object: types.WebRtcTransport | types.PipeTransport }
+  | { type: "producer"; object: types.Producer }
+  | { type: "consumer"; object: types.Consumer };
+
+/**
+ * Backs the admin API: read-only views of the rooms on this node, live
+ * stats of their mediasoup objects and control of their FFmpeg pipelines.
+ * Actions that clients have to learn about are left to the server.
+ */
+export class AdminService {
+  constructor(private readonly roomManager: RoomManager) {}
+
+  public isEnabled(): boolean {
+    return config.admin.secret !== undefined;
+  }
+
+  public isAuthorized(authorization: string | undefined): boolean {
+    return (
+      config.admin.secret !== undefined &&
+      isBearerToken(authorization, config.admin.secret)
+    );
+  }
+
+  public listRooms(): AdminRoomInfo[] {
+    return this.getRooms().map((room) => this.getRoomInfo(room));
+  }
+
+  public getRoomDetails(room: Room): AdminRoomDetails {
+    const { peerManager } = room;
+
+    const peers = peerManager.getAllPeerIds().map((peerId): AdminPeerInfo => {
+      const peer = peerManager.getPeer(peerId)!;
+
+      return {
+        peerId,
+        name: peer.name,
+        role: peer.role,
+        userId: peer.userId,
+        connected: peer.socketId !== null,
+        transports: [...peer.transports.values()].map((transport) => ({
+          id: transport.id,
+          iceState: transport.iceState,
+          dtlsState: transport.dtlsState,
+        })),
+        producers: [...peer.producers.values()].map((producer) => ({
+          producerId: producer.id,
+          peerId,
+          name: peer.name,
+          source: peerManager.getProducerSource(producer.id) ?? "camera",
+          kind: producer.kind,
+          paused: producer.paused,
+        })),
+        consumers: [...peer.consumers.values()].map((consumer) => ({
+          id: consumer.id,
+          producerId: consumer.producerId,
+          kind: consumer.kind,
+          producerPaused: consumer.producerPaused,
+          paused: consumer.paused,
+        })),
+      };
+    });
+
+    return { ...this.getRoomInfo(room), peers };
+  }
+
+  /**
+   * Live stats of a transport, producer or consumer of any room, including
+   * the pipe transports and consumers of cascade links. Null if there is
+   * no such object.
+   */
+  public async getStats(id: string): Promise<AdminStats | null> {
+    for (const room of this.getRooms()) {
+      const source = this.findStatsSource(room, id);
+      if (source) {
+        return {
+          id,
+          type: source.type,
+          roomId: room.id,
+          stats: await source.object.getStats(),
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Receive stats of every stream the room's peers publish. Producers that
+   * close while they are collected are left out.
+   */
+  public async getStreamStats(room: Room): Promise<AdminStreamStats[]> {
+    const { peerManager } = room;
+
+    const producers = peerManager.getAllPeerIds().flatMap((peerId) =>
+      [...peerManager.getPeer(peerId)!.producers.values()].map((producer) => ({
+        peerId,
+        producer,
+      }))
+    );
+
+    const streams = await Promise.all(
+      producers.map(async ({ peerId, producer }) => {
+        const stats = await producer.getStats().catch(() => []);
+
+        return stats.map(
+          (stream): AdminStreamStats => ({
+            producerId: producer.id,
+            peerId,
+            kind: producer.kind,
+            ssrc: stream.ssrc,
+            rid: stream.rid ?? null,
+            bitrate: stream.bitrate,
+            packetsLost: stream.packetsLost,
+            // RTCP reports the fraction in 1/256
+            fractionLost: stream.fractionLost / 256,
+            score: stream.score,
+          })
+        );
+      })
+    );
+
+    return streams.flat();
+  }
+
+  /**
+   * Starts, stops or restarts a room's FFmpeg. A stopped pipeline starts
+   * again on the next change of the room's producers.
+   */
+  public async controlPipeline(
+    room: Room,
+    action: PipelineAction
+  ): Promise<FFmpegStats> {
+    const { ffmpegService } = room;
+
+    if (!room.isOrigin()) {
+      throw new Error(`Room ${room.id} is encoded on its origin node`);
+    }
+
+    switch (action) {
+      case "start":
+        if (ffmpegService.isRunning()) {
+          throw new Error("FFmpeg is already running");
+        }
+        ffmpegService.start();
+        break;
+      case "stop":
+        ffmpegService.stop();
+        break;
+      case "restart":
+        await ffmpegService.restart();
+        break;
+    }
+
+    return ffmpegService.getStats();
+  }
+
+  private getRooms(): Room[] {
+    return this.roomManager
+      .getAllRoomIds()
+      .map((roomId) => this.roomManager.getRoom(roomId))
+      .filter((room): room is Room => room !== undefined);
+  }
+
+  private getRoomInfo(room: Room): AdminRoomInfo {
+    const pipeline = room.ffmpegService.getStats();
+
+    return {
+      id: room.id,
+      origin: room.isOrigin(),
+      settings: room.getSettings(),
+      peerCount: room.peerManager.getPeerCount(),
+      pipeline,
+      lastSegmentAge:
+        pipeline.lastSegmentAt !== null
+          ? (Date.now() - pipeline.lastSegmentAt) / 1000
+          : null,
+    };
+  }
+
+  private findStatsSource(room: Room, id: string): StatsSource | null {
+    const { peerManager } = room;
+
+    for (const peerId of peerManager.getAllPeerIds()) {
+      const peer = peerManager.getPeer(peerId)!;
+
+      const transport = peer.transports.get(id);
+      if (transport) return { type: "transport", object: transport };
+
+      const producer = peer.producers.get(id);
+      if (producer) return { type: "producer", object: producer };
+
+      const consumer = peer.consumers.get(id);
+      if (consumer) return { type: "consumer", object: consumer };
+    }
+
+    const remote = room.remoteProducers.get(id);
+    if (remote) return { type: "producer", object: remote.producer };
+
+    for (const link of room.cascadeLinks.values()) {
+      if (link.transport.id === id) {
+        return { type: "transport", object: link.transport };
+      }
+
+      const consumer = [...link.consumers.values()].find(
+        (linkConsumer) => linkConsumer.id === id
+      );
+      if (consumer) return { type: "consumer", object: consumer };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,54 @@
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import { config } from "../config";
+import { MODERATION } from "../config/constants";
+import type { AuditEntry } from "../types";
+
+/**
+ * Records moderation actions. Every entry is appended to the audit log file
+ * as a JSON line; the most recent ones are also kept in memory.
+ */
+export class AuditLogService {
+  private readonly file: string;
+  private entries: AuditEntry[] = [];
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor() {
+    this.file = config.audit.file;
+  }
+
+  public record(entry: Omit<AuditEntry, "time">): AuditEntry {
+    const recorded: AuditEntry = { time: new Date().toISOString(), ...entry };
+
+    this.entries.push(recorded);
+    if (this.entries.length > MODERATION.AUDIT_HISTORY_SIZE) {
+      this.entries.shift();
+    }
+
+    console.info(
+      `Audit: ${recorded.actor.name} (${recorded.actor.userId}) ${recorded.action} in room ${recorded.roomId}` +
+        (recorded.targetPeerId ? ` on ${recorded.targetPeerId}` : "")
+    );
+
+    // Writes one after another to keep the lines in order
+    this.writing = this.writing
+      .then(async () => {
+        await mkdir(path.dirname(this.file), { recursive: true });
+        await appendFile(this.file, JSON.stringify(recorded) + "\n");
+      })
+      .catch((error) => {
+        console.error("Failed to write audit log:", error);
+      });
+
+    return recorded;
+  }
+
+  /**
+   * Recent entries, oldest first, optionally of a single room.
+   */
+  public list(roomId?: string): AuditEntry[] {
+    return roomId
+      ? this.entries.filter((entry) => entry.roomId === roomId)
+      : [...this.entries];
+  }
+}
@@ -0,0 +1,88 @@
+import { config } from "../config";
+import { ROLE_PERMISSIONS } from "../config/constants";
+import type { AuthClaims, Role, RoleAction } from "../types";
+import { signJwt, verifyJwt } from "../utils/jwt";
+
+/**
+ * Issues and checks the signed tokens that grant a user a role in a room.
+ * Authentication is off while no shared secret is configured.
+ */
+export class AuthService {
+  private readonly secret: string | undefined;
+
+  constructor() {
+    this.secret = config.auth.secret;
+  }
+
+  public isEnabled(): boolean {
+    return this.secret !== undefined;
+  }
+
+  /**
+   * Role of clients while authentication is off: publisher, unless it was
+   * turned off explicitly with `AUTH_DISABLED=true`.
+   */
+  public getAnonymousRole(): Role {
+    return config.auth.disabled ? "host" : "publisher";
+  }
+
+  public static can(role: Role, action: RoleAction): boolean {
+    return ROLE_PERMISSIONS[role].includes(action);
+  }
+
+  public createToken(
+    claims: Omit<AuthClaims, "iat" | "exp">,
+    ttlSeconds: number = config.auth.tokenTtlSeconds
+  ): string {
+    const now = Math.floor(Date.now() / 1000);
+    return signJwt(
+      { ...claims, iat: now, exp: now + ttlSeconds },
+      this.getSecret()
+    );
+  }
+
+  /**
+   * Verifies a token and returns its claims. Throws for missing, invalid
+   * and expired tokens and for claims without a known role.
+   */
+  public verify(token: unknown): AuthClaims {
+    if (typeof token !== "string" || token === "") {
+      throw new Error("Missing token");
+    }
+
+    const payload = verifyJwt(token, this.getSecret());
+    const { sub, room, role, name } = payload;
+
+    if (
+      typeof sub !== "string" ||
+      typeof room !== "string" ||
+      typeof role !== "string" ||
+      !(role in ROLE_PERMISSIONS) ||
+      (name !== undefined && typeof name !== "string")
+    ) {
+      throw new Error("Invalid token claims");
+    }
+
+    return payload as unknown as AuthClaims;
+  }
+
+  /**
+   * Verifies a token and checks that it was issued for the room.
+   */
+  public authorize(token: unknown, roomId: string): AuthClaims {
+    const claims = this.verify(token);
+
+    if (claims.room !== roomId) {
+      throw new Error(`Token is not valid for room ${roomId}`);
+    }
+
+    return claims;
+  }
+
+  private getSecret(): string {
+    if (!this.secret) {
+      throw new Error("AUTH_SECRET is not set");
+    }
+    return this.secret;
+  }
+}
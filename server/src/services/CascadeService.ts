@@ -0,0 +1,479 @@
+import { EventEmitter } from "events";
+import type { types } from "mediasoup";
+import { config } from "../config";
+import { CLUSTER } from "../config/constants";
+import type {
+  CascadeEventType,
+  CascadeLink,
+  ClusterNode,
+  PipeTuple,
+  PipedProducerInfo,
+  RemoteProducer,
+  RoomRegistry,
+} from "../types";
+import { isBearerToken } from "../utils/bearer";
+import type { Room } from "./Room";
+
+interface CascadeServiceEvents {
+  // A producer of a peer on another node arrived or changed
+  producerAdded: [room: Room, remote: RemoteProducer];
+  producerClosed: [room: Room, remote: RemoteProducer];
+  producerPaused: [room: Room, remote: RemoteProducer];
+  producerResumed: [room: Room, remote: RemoteProducer];
+  // The room may have become empty
+  linkClosed: [room: Room];
+}
+
+/**
+ * Serves a room from several nodes. The node that creates a room first is
+ * its origin; other nodes link their copy of the room to the origin with a
+ * PipeTransport on each side. Producers are piped across a link with the
+ * same ID on both nodes, and the origin relays them between the other
+ * nodes. Nodes call each other's cascade API over HTTP with a shared secret.
+ */
+export class CascadeService extends EventEmitter<CascadeServiceEvents> {
+  public readonly nodeId = config.cluster.nodeId;
+  private rooms = new Map<string, Room>(); // roomId -> room attached to the cluster
+  private pendingPipes = new Set<string>(); // roomId:producerId
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(private readonly registry: RoomRegistry) {
+    super();
+  }
+
+  /**
+   * Cascading needs the shared secret; without it every node serves its
+   * rooms on its own.
+   */
+  public isEnabled(): boolean {
+    return config.cluster.secret !== undefined;
+  }
+
+  public isAuthorized(authorization: string | undefined): boolean {
+    return (
+      config.cluster.secret !== undefined &&
+      isBearerToken(authorization, config.cluster.secret)
+    );
+  }
+
+  /**
+   * Registers the node and keeps its load and room claims fresh.
+   */
+  public async start(getPeerCount: () => number): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const beat = async () => {
+      try {
+        await this.registry.registerNode(
+          { ...this.getNode(), peers: getPeerCount() },
+          CLUSTER.ENTRY_TTL
+        );
+        for (const room of this.rooms.values()) {
+          if (room.isOrigin()) {
+            await this.registry.claimRoom(room.id, this.nodeId, CLUSTER.ENTRY_TTL);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to update the room registry:", error);
+      }
+    };
+
+    await beat();
+    this.heartbeat = setInterval(beat, CLUSTER.HEARTBEAT_INTERVAL);
+    console.info(`Cluster node ${this.nodeId} registered`);
+  }
+
+  public async stop(): Promise<void> {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    if (this.isEnabled()) {
+      await this.registry.removeNode(this.nodeId);
+    }
+  }
+
+  public getRoom(roomId: string): Room | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  /**
+   * Node a client should join the room on: its origin while the origin has
+   * room for more peers, else the least loaded node.
+   */
+  public async selectNode(roomId: string): Promise<ClusterNode> {
+    const self = { ...this.getNode(), peers: 0 };
+    if (!this.isEnabled()) return self;
+
+    const nodes = await this.registry.getNodes();
+    if (nodes.length === 0) return self;
+
+    const originId = await this.registry.getRoomOrigin(roomId);
+    const origin = nodes.find((node) => node.id === originId);
+    if (origin && origin.peers < config.cluster.maxPeersPerNode) {
+      return origin;
+    }
+
+    return nodes.reduce((leastLoaded, node) =>
+      node.peers < leastLoaded.peers ? node : leastLoaded
+    );
+  }
+
+  /**
+   * The room's origin if that is another node.
+   */
+  public async getRemoteOrigin(roomId: string): Promise<ClusterNode | null> {
+    if (!this.isEnabled()) return null;
+
+    const originId = await this.registry.getRoomOrigin(roomId);
+    if (!originId || originId === this.nodeId) return null;
+
+    const nodes = await this.registry.getNodes();
+    return nodes.find((node) => node.id === originId) ?? null;
+  }
+
+  /**
+   * Claims a new room for this node, or links it to its origin.
+   */
+  public async attachRoom(room: Room): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    this.rooms.set(room.id, room);
+    try {
+      const originId = await this.registry.claimRoom(
+        room.id,
+        this.nodeId,
+        CLUSTER.ENTRY_TTL
+      );
+      if (originId === this.nodeId) return;
+
+      const origin = (await this.registry.getNodes()).find(
+        (node) => node.id === originId
+      );
+      if (!origin) {
+        throw new Error(`Origin node ${originId} of room ${room.id} is not available`);
+      }
+
+      room.setOrigin(false);
+      await this.linkToOrigin(room, origin);
+    } catch (error) {
+      this.rooms.delete(room.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Closes the room's links, telling the nodes on the other side, and gives
+   * up the origin claim.
+   */
+  public async detachRoom(room: Room): Promise<void> {
+    if (this.rooms.get(room.id) !== room) return;
+    this.rooms.delete(room.id);
+
+    await Promise.all(
+      [...room.cascadeLinks.keys()].map((nodeId) => this.closeLink(room, nodeId, true))
+    );
+
+    if (room.isOrigin()) {
+      await this.registry.releaseRoom(room.id, this.nodeId).catch((error) => {
+        console.error(`Failed to release room ${room.id}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Origin side of a new link. Returns our end of the pipe and the
+   * producers the node can pipe in.
+   */
+  public async acceptLink(
+    room: Room,
+    nodeId: string,
+    url: string,
+    tuple: PipeTuple
+  ): Promise<{ tuple: PipeTuple; producerIds: string[] }> {
+    // A node that links again, e.g. after a restart, replaces its old link
+    if (room.cascadeLinks.has(nodeId)) {
+      await this.closeLink(room, nodeId, false);
+    }
+
+    const transport = await room.mediasoupService.createPipeTransport();
+    try {
+      await transport.connect(tuple);
+    } catch (error) {
+      transport.close();
+      throw error;
+    }
+
+    room.cascadeLinks.set(nodeId, { nodeId, url, transport, consumers: new Map() });
+    console.info(`Room ${room.id} is cascaded to node ${nodeId}`);
+
+    return {
+      tuple: this.getTuple(transport),
+      producerIds: room.getExistingProducers().map(({ producerId }) => producerId),
+    };
+  }
+
+  /**
+   * Sending side of a piped producer: consumes it on the link's transport
+   * and reports its changes to the node.
+   */
+  public async consumeForLink(
+    room: Room,
+    nodeId: string,
+    producerId: string
+  ): Promise<PipedProducerInfo> {
+    const link = this.getLink(room, nodeId);
+    const info = room
+      .getExistingProducers()
+      .find((producer) => producer.producerId === producerId);
+    if (!info) {
+      throw new Error(`Producer ${producerId} not found`);
+    }
+
+    let consumer = link.consumers.get(producerId);
+    if (!consumer) {
+      consumer = await link.transport.consume({ producerId });
+      this.setupLinkConsumer(room, link, consumer);
+    }
+
+    return {
+      ...info,
+      kind: consumer.kind,
+      rtpParameters: consumer.rtpParameters,
+      paused: consumer.producerPaused,
+    };
+  }
+
+  /**
+   * Receiving side of a piped producer: asks the node for it and produces
+   * it on the link's transport with the same ID.
+   */
+  public async pipeIn(room: Room, nodeId: string, producerId: string): Promise<void> {
+    const link = this.getLink(room, nodeId);
+    const key = `${room.id}:${producerId}`;
+
+    if (this.pendingPipes.has(key) || this.hasProducer(room, producerId)) return;
+    this.pendingPipes.add(key);
+
+    try {
+      const info = await this.request<PipedProducerInfo>(
+        link.url,
+        room.id,
+        "POST",
+        `/links/${this.nodeId}/consume`,
+        { producerId }
+      );
+      if (link.transport.closed || this.hasProducer(room, producerId)) return;
+
+      const producer = await link.transport.produce({
+        id: info.producerId,
+        kind: info.kind,
+        rtpParameters: info.rtpParameters,
+        paused: info.paused,
+        appData: { source: info.source },
+      });
+      const remote: RemoteProducer = {
+        producer,
+        peerId: info.peerId,
+        name: info.name,
+        source: info.source,
+        nodeId,
+      };
+
+      try {
+        await room.addRemoteProducer(remote);
+      } catch (error) {
+        producer.close();
+        throw error;
+      }
+
+      producer.observer.once("close", () => this.emit("producerClosed", room, remote));
+      producer.observer.on("pause", () => this.emit("producerPaused", room, remote));
+      producer.observer.on("resume", () => this.emit("producerResumed", room, remote));
+      this.emit("producerAdded", room, remote);
+
+      // The origin passes it on to the other nodes
+      this.announceProducer(room, producerId, nodeId);
+    } finally {
+      this.pendingPipes.delete(key);
+    }
+  }
+
+  /**
+   * Offers a producer to every linked node except the one it came from.
+   */
+  public announceProducer(room: Room, producerId: string, exceptNodeId?: string): void {
+    room.cascadeLinks.forEach((link) => {
+      if (link.nodeId === exceptNodeId) return;
+
+      this.request(link.url, room.id, "POST", `/links/${this.nodeId}/producers`, {
+        producerId,
+      }).catch((error) => {
+        console.error(`Failed to offer producer ${producerId} to node ${link.nodeId}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Applies a change of a producer reported by the node it came from.
+   */
+  public async handleEvent(
+    room: Room,
+    nodeId: string,
+    type: CascadeEventType,
+    producerId: string
+  ): Promise<void> {
+    const remote = room.remoteProducers.get(producerId);
+    if (!remote || remote.nodeId !== nodeId) {
+      throw new Error(`Producer ${producerId} not found`);
+    }
+
+    switch (type) {
+      case "producerClosed":
+        remote.producer.close();
+        break;
+      case "producerPaused":
+        await remote.producer.pause();
+        break;
+      case "producerResumed":
+        await remote.producer.resume();
+        break;
+      default:
+        throw new Error(`Unknown cascade event ${type}`);
+    }
+  }
+
+  /**
+   * Closes a link with the producers piped over it, optionally telling the
+   * node on the other side.
+   */
+  public async closeLink(room: Room, nodeId: string, notify: boolean): Promise<void> {
+    const link = room.cascadeLinks.get(nodeId);
+    if (!link) return;
+
+    room.cascadeLinks.delete(nodeId);
+    link.transport.close();
+    console.info(`Cascade link of room ${room.id} to node ${nodeId} closed`);
+
+    if (notify) {
+      await this.request(link.url, room.id, "DELETE", `/links/${this.nodeId}`).catch(
+        (error) => {
+          console.error(`Failed to close link to node ${nodeId}:`, error);
+        }
+      );
+    }
+
+    this.emit("linkClosed", room);
+  }
+
+  private async linkToOrigin(room: Room, origin: ClusterNode): Promise<void> {
+    const transport = await room.mediasoupService.createPipeTransport();
+    const link: CascadeLink = {
+      nodeId: origin.id,
+      url: origin.internalUrl,
+      transport,
+      consumers: new Map(),
+    };
+
+    try {
+      const { tuple, producerIds } = await this.request<{
+        tuple: PipeTuple;
+        producerIds: string[];
+      }>(origin.internalUrl, room.id, "POST", "/links", {
+        nodeId: this.nodeId,
+        url: config.cluster.internalUrl,
+        tuple: this.getTuple(transport),
+      });
+
+      await transport.connect(tuple);
+      room.cascadeLinks.set(origin.id, link);
+      console.info(`Room ${room.id} cascades from node ${origin.id}`);
+
+      producerIds.forEach((producerId) => {
+        this.pipeIn(room, origin.id, producerId).catch((error) => {
+          console.error(`Failed to pipe in producer ${producerId}:`, error);
+        });
+      });
+    } catch (error) {
+      transport.close();
+      throw error;
+    }
+  }
+
+  private setupLinkConsumer(room: Room, link: CascadeLink, consumer: types.Consumer): void {
+    const { producerId } = consumer;
+    link.consumers.set(producerId, consumer);
+
+    const report = (type: CascadeEventType) => {
+      this.request(link.url, room.id, "POST", `/links/${this.nodeId}/events`, {
+        type,
+        producerId,
+      }).catch((error) => {
+        console.error(`Failed to report ${type} of ${producerId} to node ${link.nodeId}:`, error);
+      });
+    };
+
+    consumer.observer.once("close", () => {
+      link.consumers.delete(producerId);
+      // A closed link takes the piped producers on the other side along
+      if (!link.transport.closed) {
+        report("producerClosed");
+      }
+    });
+    consumer.on("producerpause", () => report("producerPaused"));
+    consumer.on("producerresume", () => report("producerResumed"));
+  }
+
+  private hasProducer(room: Room, producerId: string): boolean {
+    return room
+      .getExistingProducers()
+      .some((producer) => producer.producerId === producerId);
+  }
+
+  private getLink(room: Room, nodeId: string): CascadeLink {
+    const link = room.cascadeLinks.get(nodeId);
+    if (!link) {
+      throw new Error(`Room ${room.id} has no link to node ${nodeId}`);
+    }
+    return link;
+  }
+
+  private getTuple(transport: types.PipeTransport): PipeTuple {
+    return { ip: transport.tuple.localAddress, port: transport.tuple.localPort };
+  }
+
+  private getNode(): Omit<ClusterNode, "peers"> {
+    return {
+      id: this.nodeId,
+      publicUrl: config.cluster.publicUrl,
+      internalUrl: config.cluster.internalUrl,
+    };
+  }
+
+  private async request<T = unknown>(
+    url: string,
+    roomId: string,
+    method: "POST" | "DELETE",
+    path: string,
+    body?: object
+  ): Promise<T> {
+    const response = await fetch(
+      `${url}/cascade/rooms/${encodeURIComponent(roomId)}${path}`,
+      {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${config.cluster.secret}`,
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(CLUSTER.REQUEST_TIMEOUT),
+      }
+    );
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new Error(result.error ?? `Cascade request failed with status ${response.status}`);
+    }
+    return result as T;
+  }
+}
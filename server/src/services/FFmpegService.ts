@@ -1,47 +1,411 @@
 import { spawn, ChildProcess } from "child_process";
-import { existsSync, mkdirSync } from "fs";
+import { EventEmitter, once } from "events";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "fs";
+import os from "os";
 import path from "path";
-import type { FFmpegManager } from "../types";
+import { config } from "../config";
+import { FFMPEG } from "../config/constants";
+import type {
+  FFmpegManager,
+  FFmpegStats,
+  HlsRendition,
+  PipelineState,
+  PipelineStateEvent,
+  RtpStreamInput,
+} from "../types";
+import { buildSdp } from "../utils/sdp";
 
-export class FFmpegService implements FFmpegManager {
+interface VideoStream {
+  // Index of the stream in the SDP
+  streamIndex: number;
+  input: RtpStreamInput;
+}
+
+// Progress lines look like "frame=  120 fps= 30 q=28.0 ... speed=1.01x"
+const FPS_PATTERN = /fps=\s*([\d.]+)/g;
+const SPEED_PATTERN = /speed=\s*([\d.]+)x/g;
+// The HLS muxer logs "Opening '.../stream_720p_12.ts' for writing", and
+// ".../stream_720p_12.m4s.tmp" with the temp_file flag of low-latency HLS
+export const SEGMENT_PATTERN = /Opening '[^']+\.(?:ts|m4s|mp4)(?:\.tmp)?' for writing/;
+
+interface FFmpegServiceEvents {
+  stateChanged: [event: PipelineStateEvent];
+}
+
+/**
+ * Runs the FFmpeg process that encodes a room's composite and supervises
+ * it: a process that exits on its own or stops making progress is
+ * restarted, waiting longer after every crash in a row.
+ */
+export class FFmpegService
+  extends EventEmitter<FFmpegServiceEvents>
+  implements FFmpegManager
+{
   public process: ChildProcess | null = null;
   private readonly outputDir: string;
   private readonly workingDir: string;
+  private readonly sdpPath: string;
+  private inputs = new Map<string, RtpStreamInput>(); // producerId -> input
+  private reconfigureTimer: NodeJS.Timeout | null = null;
+  private keyFrameTimers: NodeJS.Timeout[] = [];
+  private passthroughTimer: NodeJS.Timeout | null = null;
+  private reconfiguring: Promise<void> = Promise.resolve();
+  // Starts by the supervisor after a crash or hang, not layout changes
+  private restarts = 0;
+  private state: PipelineState = "stopped";
+  private crashes = 0;
+  private crashesInRow = 0;
+  private startedAt = 0;
+  private lastProgressAt: number | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  // Exit of the last stopped process, which holds the RTP ports until then
+  private exited: Promise<unknown> = Promise.resolve();
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private progress: Pick<FFmpegStats, "speed" | "fps" | "lastSegmentAt"> = {
+    speed: null,
+    fps: null,
+    lastSegmentAt: null,
+  };
 
-  constructor() {
-    this.outputDir = path.resolve(__dirname, "../../../fermion-app/public/live");
+  /**
+   * @param roomId - Room whose composite is written to `<roomId>/` in the
+   * HLS output directory
+   */
+  constructor(roomId: string) {
+    super();
+    this.outputDir = path.resolve(config.hls.outputDirectory, roomId);
     this.workingDir = path.resolve(__dirname, "..");
+    this.sdpPath = path.resolve(os.tmpdir(), "mediasoup-hls", `${roomId}.sdp`);
   }
 
+  /**
+   * Starts FFmpeg for the current set of inputs. Nothing is started while
+   * the room has no producers.
+   */
   public start(): void {
     if (this.isRunning()) {
       console.warn("FFmpeg process is already running");
       return;
     }
 
-    console.info("Starting FFmpeg process...");
+    this.clearRestartTimer();
+
+    if (this.inputs.size === 0) {
+      console.info("No RTP inputs, FFmpeg not started");
+      this.setState("stopped");
+      return;
+    }
+
+    console.info(`Starting FFmpeg process with ${this.inputs.size} inputs...`);
     this.ensureOutputDirectory();
+    this.writeSdpFile();
 
-    const args = this.buildFFmpegArgs();
+    const passthrough = this.getPassthroughStream();
+    if (passthrough) {
+      console.info(
+        `Copying H.264 of producer ${passthrough.input.producerId} into the top rendition`
+      );
+    }
+
+    const args = this.buildFFmpegArgs(passthrough);
     this.process = spawn("ffmpeg", args, {
       cwd: this.workingDir,
     });
+    this.startedAt = Date.now();
+    this.lastProgressAt = null;
+    this.progress.speed = null;
+    this.progress.fps = null;
 
-    this.setupEventHandlers();
+    this.setupEventHandlers(this.process);
+    this.scheduleKeyFrameRequests(passthrough);
+    this.startWatchdog();
+    this.setState("starting");
   }
 
+  /**
+   * Stops FFmpeg and any pending restart. A process that ignores SIGTERM
+   * is killed with SIGKILL.
+   */
   public stop(): void {
-    if (!this.process) {
+    this.clearReconfigureTimer();
+    this.clearRestartTimer();
+    this.clearKeyFrameTimers();
+    this.killProcess();
+    this.setState("stopped");
+  }
+
+  /**
+   * Restarts FFmpeg right away with the current inputs, after any restart
+   * that is already in progress.
+   */
+  public restart(): Promise<void> {
+    this.clearReconfigureTimer();
+
+    const restart = this.reconfiguring.then(() => this.reconfigure());
+    this.reconfiguring = restart.catch((error) => {
+      console.error("Failed to restart FFmpeg:", error);
+    });
+    return restart;
+  }
+
+  public isRunning(): boolean {
+    return this.process !== null && !this.process.killed;
+  }
+
+  public getState(): PipelineState {
+    return this.state;
+  }
+
+  public getStats(): FFmpegStats {
+    return {
+      state: this.state,
+      running: this.isRunning(),
+      restarts: this.restarts,
+      crashes: this.crashes,
+      ...this.progress,
+    };
+  }
+
+  public getOutputDir(): string {
+    return this.outputDir;
+  }
+
+  /**
+   * Path of the master playlist that lists all renditions.
+   */
+  public getPlaylistPath(): string {
+    return path.resolve(this.outputDir, "stream.m3u8");
+  }
+
+  /**
+   * Path of the media playlist of a single rendition, by default of the
+   * one with the highest resolution.
+   */
+  public getVariantPlaylistPath(
+    rendition: HlsRendition = this.getTopRendition()
+  ): string {
+    return path.resolve(this.outputDir, `stream_${rendition.name}.m3u8`);
+  }
+
+  public addInput(input: RtpStreamInput): void {
+    this.inputs.set(input.producerId, input);
+    this.scheduleReconfigure();
+  }
+
+  public removeInput(producerId: string): void {
+    if (this.inputs.delete(producerId)) {
+      this.scheduleReconfigure();
+    }
+  }
+
+  /**
+   * Replaces a paused camera with a placeholder card and leaves paused
+   * microphones out of the mix.
+   */
+  public setInputPaused(producerId: string, paused: boolean): void {
+    const input = this.inputs.get(producerId);
+    if (!input || input.paused === paused) return;
+
+    input.paused = paused;
+    this.scheduleReconfigure();
+  }
+
+  /**
+   * Debounces layout changes so that a peer publishing camera and microphone
+   * at once causes a single restart.
+   */
+  private scheduleReconfigure(): void {
+    this.clearReconfigureTimer();
+
+    this.reconfigureTimer = setTimeout(() => {
+      this.reconfigureTimer = null;
+      this.reconfiguring = this.reconfiguring
+        .then(() => this.reconfigure())
+        .catch((error) => {
+          console.error("Failed to reconfigure FFmpeg:", error);
+        });
+    }, FFMPEG.RECONFIGURE_DELAY);
+  }
+
+  /**
+   * A freshly started FFmpeg cannot decode video until the next key frame,
+   * so key frames are requested from every video producer while it probes
+   * its inputs.
+   */
+  private scheduleKeyFrameRequests(passthrough?: VideoStream): void {
+    this.clearKeyFrameTimers();
+
+    this.keyFrameTimers = FFMPEG.KEYFRAME_REQUEST_DELAYS.map((delay) =>
+      setTimeout(() => {
+        for (const input of this.inputs.values()) {
+          if (input.kind === "video") this.requestKeyFrame(input);
+        }
+      }, delay)
+    );
+
+    // Browsers only send key frames on request, and a copied stream can
+    // only be cut into segments at key frames
+    if (passthrough) {
+      this.passthroughTimer = setInterval(
+        () => this.requestKeyFrame(passthrough.input),
+        FFMPEG.PASSTHROUGH_KEYFRAME_INTERVAL
+      );
+    }
+  }
+
+  private requestKeyFrame(input: RtpStreamInput): void {
+    if (input.consumer.closed) return;
+
+    input.consumer.requestKeyFrame().catch((error) => {
+      console.error("Failed to request key frame:", error);
+    });
+  }
+
+  private clearKeyFrameTimers(): void {
+    this.keyFrameTimers.forEach((timer) => clearTimeout(timer));
+    this.keyFrameTimers = [];
+
+    if (this.passthroughTimer) {
+      clearInterval(this.passthroughTimer);
+      this.passthroughTimer = null;
+    }
+  }
+
+  private clearReconfigureTimer(): void {
+    if (this.reconfigureTimer) {
+      clearTimeout(this.reconfigureTimer);
+      this.reconfigureTimer = null;
+    }
+  }
+
+  /**
+   * Restarts FFmpeg with a layout built from the current inputs. The old
+   * process has to exit first, as it still holds the RTP ports.
+   */
+  private async reconfigure(): Promise<void> {
+    this.clearKeyFrameTimers();
+    this.killProcess();
+    await this.exited;
+
+    this.start();
+  }
+
+  private killProcess(): void {
+    const ffmpegProcess = this.process;
+    if (!ffmpegProcess) {
       return;
     }
 
     console.info("Stopping FFmpeg process...");
-    this.process.kill("SIGTERM");
     this.process = null;
+    this.clearWatchdog();
+    ffmpegProcess.kill("SIGTERM");
+    rmSync(this.sdpPath, { force: true });
+
+    if (ffmpegProcess.exitCode !== null || ffmpegProcess.signalCode !== null) {
+      return;
+    }
+    this.exited = Promise.race([
+      once(ffmpegProcess, "close"),
+      new Promise((resolve) => setTimeout(resolve, FFMPEG.EXIT_TIMEOUT)),
+    ]);
+    const killTimer = setTimeout(() => {
+      console.warn(`FFmpeg process ${ffmpegProcess.pid} ignored SIGTERM, killing it`);
+      ffmpegProcess.kill("SIGKILL");
+    }, FFMPEG.KILL_TIMEOUT);
+    ffmpegProcess.once("close", () => clearTimeout(killTimer));
   }
 
-  public isRunning(): boolean {
-    return this.process !== null && !this.process.killed;
+  /**
+   * Restarts FFmpeg after it crashed or hung. The delay doubles with every
+   * crash in a row; a process that ran for a while resets it.
+   */
+  private scheduleRestart(reason: string): void {
+    this.crashes++;
+    if (Date.now() - this.startedAt >= FFMPEG.SUPERVISOR.STABLE_AFTER) {
+      this.crashesInRow = 0;
+    }
+
+    const delay = Math.min(
+      FFMPEG.SUPERVISOR.RESTART_DELAY_MIN * 2 ** this.crashesInRow,
+      FFMPEG.SUPERVISOR.RESTART_DELAY_MAX
+    );
+    this.crashesInRow++;
+
+    console.warn(`FFmpeg ${reason}, restarting in ${delay} ms`);
+    this.clearRestartTimer();
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.reconfiguring = this.reconfiguring
+        .then(() => this.exited)
+        .then(() => {
+          // Unless it was stopped or started otherwise in the meantime
+          if (this.state === "backoff") {
+            this.restarts++;
+            this.start();
+          }
+        })
+        .catch((error) => {
+          this.scheduleRestart(`failed to start: ${(error as Error).message}`);
+        });
+    }, delay);
+    this.setState("backoff", reason);
+  }
+
+  private clearRestartTimer(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private startWatchdog(): void {
+    this.clearWatchdog();
+    this.watchdogTimer = setInterval(
+      () => this.checkProgress(),
+      FFMPEG.SUPERVISOR.WATCHDOG_INTERVAL
+    );
+  }
+
+  private clearWatchdog(): void {
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+
+  /**
+   * Restarts a process that stopped reporting progress or writing segments
+   * once it had time to probe its inputs.
+   */
+  private checkProgress(): void {
+    const now = Date.now();
+    if (!this.process || now - this.startedAt < FFMPEG.SUPERVISOR.STARTUP_TIMEOUT) {
+      return;
+    }
+
+    const lastProgressAt = this.lastProgressAt ?? this.startedAt;
+    const lastSegmentAt = Math.max(this.progress.lastSegmentAt ?? 0, this.startedAt);
+    let reason: string | null = null;
+
+    if (now - lastProgressAt > FFMPEG.SUPERVISOR.PROGRESS_TIMEOUT) {
+      reason = "hung without progress";
+    } else if (now - lastSegmentAt > FFMPEG.SUPERVISOR.SEGMENT_TIMEOUT) {
+      reason = "hung without new segments";
+    }
+
+    if (reason) {
+      this.clearKeyFrameTimers();
+      this.killProcess();
+      this.scheduleRestart(reason);
+    }
+  }
+
+  private setState(state: PipelineState, reason?: string): void {
+    if (this.state === state) return;
+
+    this.state = state;
+    this.emit("stateChanged", reason ? { state, reason } : { state });
   }
 
   private ensureOutputDirectory(): void {
@@ -51,7 +415,314 @@ export class FFmpegService implements FFmpegManager {
     }
   }
 
-  private buildFFmpegArgs(): string[] {
+  private getSortedInputs(): RtpStreamInput[] {
+    return [...this.inputs.values()].sort((a, b) => a.slot - b.slot);
+  }
+
+  /**
+   * Writes an SDP file with one media section per input, built from the
+   * RTP parameters of the inputs' consumers.
+   */
+  private writeSdpFile(): void {
+    const sdp = buildSdp(
+      this.getSortedInputs().map((input) => ({
+        kind: input.kind,
+        ports: input.ports,
+        rtpParameters: input.consumer.rtpParameters,
+      }))
+    );
+
+    mkdirSync(path.dirname(this.sdpPath), { recursive: true });
+    writeFileSync(this.sdpPath, sdp);
+  }
+
+  /**
+   * The only camera of the room is copied into the top rendition when it
+   * sends H.264, which saves decoding and encoding at the highest
+   * resolution. Low-latency parts would need a key frame every half second,
+   * so it only applies to regular HLS.
+   */
+  private getPassthroughStream(): VideoStream | undefined {
+    if (!config.composite.h264Passthrough || config.hls.lowLatency) {
+      return undefined;
+    }
+
+    const videoStreams = this.getSortedInputs()
+      .map((input, streamIndex) => ({ streamIndex, input }))
+      .filter(({ input }) => input.kind === "video");
+
+    if (videoStreams.length !== 1 || videoStreams[0].input.paused) {
+      return undefined;
+    }
+
+    const [codec] = videoStreams[0].input.consumer.rtpParameters.codecs;
+    return codec?.mimeType.toLowerCase() === "video/h264"
+      ? videoStreams[0]
+      : undefined;
+  }
+
+  /**
+   * Indices of the renditions FFmpeg encodes, all but a copied one.
+   */
+  private getEncodedRenditions(passthrough?: VideoStream): number[] {
+    const renditions = config.hls.renditions;
+    const topIndex = renditions.indexOf(this.getTopRendition());
+
+    return renditions
+      .map((_rendition, index) => index)
+      .filter((index) => !passthrough || index !== topIndex);
+  }
+
+  /**
+   * Builds a grid of all video inputs (1x1, 2x1, 2x2, 3x2, 3x3, ...) and a
+   * mix of all audio inputs. A missing kind is replaced by black video or
+   * silence so that the HLS output always has both tracks. A shared screen
+   * switches to the presentation layout instead of the grid. A copied camera
+   * is scaled straight into the lower renditions.
+   */
+  private buildFilterGraph(passthrough?: VideoStream): string {
+    const inputs = this.getSortedInputs();
+    const videoStreams: VideoStream[] = [];
+    const audioStreams: number[] = [];
+
+    inputs.forEach((input, streamIndex) => {
+      if (input.kind === "video") {
+        videoStreams.push({ streamIndex, input });
+      } else if (!input.paused) {
+        audioStreams.push(streamIndex);
+      }
+    });
+
+    const encodedRenditions = this.getEncodedRenditions(passthrough);
+    let videoFilters = this.buildVideoFilters(videoStreams);
+
+    if (passthrough) {
+      videoFilters =
+        encodedRenditions.length > 0
+          ? [`[0:${passthrough.streamIndex}]setpts=PTS-STARTPTS[v]`]
+          : [];
+    }
+
+    return [
+      ...videoFilters,
+      ...this.buildAudioFilters(audioStreams),
+      ...this.buildRenditionFilters(encodedRenditions),
+    ].join("; ");
+  }
+
+  /**
+   * Splits the composite into one copy per rendition. Each video copy is
+   * scaled and letterboxed to the rendition's exact size, so the output
+   * size stays the same whatever the grid looks like.
+   */
+  private buildRenditionFilters(encodedRenditions: number[]): string[] {
+    const renditions = config.hls.renditions;
+    const videoSplits = encodedRenditions.map((index) => `[vsplit${index}]`);
+    const audioOutputs = renditions.map((_rendition, index) => `[aout${index}]`);
+    const filters: string[] = [];
+
+    if (encodedRenditions.length > 0) {
+      filters.push(
+        `[v]split=${encodedRenditions.length}${videoSplits.join("")}`,
+        ...encodedRenditions.map((index) => {
+          const { width, height } = renditions[index];
+          return (
+            `[vsplit${index}]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+            `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1[vout${index}]`
+          );
+        })
+      );
+    }
+
+    filters.push(`[a]asplit=${renditions.length}${audioOutputs.join("")}`);
+    return filters;
+  }
+
+  private getTopRendition(): HlsRendition {
+    return config.hls.renditions.reduce((top, rendition) =>
+      rendition.height > top.height ? rendition : top
+    );
+  }
+
+  /**
+   * The grid is composed at the size of the top rendition, which the lower
+   * renditions are scaled down from. Tiles share it evenly.
+   */
+  private buildVideoFilters(streams: VideoStream[]): string[] {
+    const { FRAME_RATE } = FFMPEG.VIDEO;
+    const { width: compositeWidth, height: compositeHeight } =
+      this.getTopRendition();
+
+    if (streams.length === 0) {
+      return [
+        `color=c=black:s=${compositeWidth}x${compositeHeight}:r=${FRAME_RATE}[v]`,
+      ];
+    }
+
+    const screen = streams.find(
+      ({ input }) => input.source === "screen" && !input.paused
+    );
+    if (screen) {
+      return this.buildPresentationFilters(
+        screen,
+        streams.filter((stream) => stream !== screen)
+      );
+    }
+
+    const columns = Math.ceil(Math.sqrt(streams.length));
+    const rows = Math.ceil(streams.length / columns);
+    // Even sizes, as required by yuv420p
+    const width = Math.floor(compositeWidth / columns / 2) * 2;
+    const height = Math.floor(compositeHeight / rows / 2) * 2;
+
+    const tileLabel = (index: number) =>
+      streams.length === 1 ? "v" : `v${index}`;
+
+    const filters = streams.map((stream, index) =>
+      this.buildTileFilter(stream, width, height, tileLabel(index))
+    );
+
+    if (streams.length === 1) {
+      return filters;
+    }
+
+    const layout = streams
+      .map((_stream, index) => {
+        const x = (index % columns) * width;
+        const y = Math.floor(index / columns) * height;
+        return `${x}_${y}`;
+      })
+      .join("|");
+    const tiles = streams.map((_stream, index) => `[v${index}]`).join("");
+
+    filters.push(
+      `${tiles}xstack=inputs=${streams.length}:layout=${layout}:fill=black[v]`
+    );
+
+    return filters;
+  }
+
+  /**
+   * Shows a shared screen large with all other videos as thumbnails in a
+   * column next to it. Thumbnails shrink when they do not fit the height.
+   */
+  private buildPresentationFilters(
+    screen: VideoStream,
+    thumbnails: VideoStream[]
+  ): string[] {
+    const { WIDTH, HEIGHT, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT } =
+      FFMPEG.PRESENTATION;
+
+    if (thumbnails.length === 0) {
+      return [this.buildTileFilter(screen, WIDTH, HEIGHT, "v")];
+    }
+
+    const screenWidth = WIDTH - THUMBNAIL_WIDTH;
+    // Even sizes, as required by yuv420p
+    const thumbnailHeight = Math.min(
+      THUMBNAIL_HEIGHT,
+      Math.floor(HEIGHT / thumbnails.length / 2) * 2
+    );
+
+    const layout = [
+      "0_0",
+      ...thumbnails.map(
+        (_stream, index) => `${screenWidth}_${index * thumbnailHeight}`
+      ),
+    ].join("|");
+    const tiles = [
+      "[screen]",
+      ...thumbnails.map((_stream, index) => `[t${index}]`),
+    ];
+
+    return [
+      this.buildTileFilter(screen, screenWidth, HEIGHT, "screen"),
+      ...thumbnails.map((stream, index) =>
+        this.buildTileFilter(stream, THUMBNAIL_WIDTH, thumbnailHeight, `t${index}`)
+      ),
+      `${tiles.join("")}xstack=inputs=${tiles.length}:layout=${layout}:fill=black[v]`,
+    ];
+  }
+
+  /**
+   * Scales and letterboxes a video to the given size, or shows its
+   * placeholder card while it is paused.
+   */
+  private buildTileFilter(
+    { streamIndex, input }: VideoStream,
+    width: number,
+    height: number,
+    label: string
+  ): string {
+    if (input.paused) {
+      return `${this.buildPlaceholderFilter(input, width, height)}[${label}]`;
+    }
+
+    return (
+      `[0:${streamIndex}]setpts=PTS-STARTPTS,` +
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1[${label}]`
+    );
+  }
+
+  /**
+   * A tile in the peer's color with its name in the middle. Names are
+   * restricted to characters that need no escaping in the filter graph.
+   */
+  private buildPlaceholderFilter(
+    input: RtpStreamInput,
+    width: number,
+    height: number
+  ): string {
+    const { FRAME_RATE } = FFMPEG.VIDEO;
+    const { COLORS, FONT_SIZE } = FFMPEG.PLACEHOLDER;
+
+    const hash = [...input.peerId].reduce(
+      (sum, char) => (sum * 31 + char.charCodeAt(0)) >>> 0,
+      0
+    );
+    const color = COLORS[hash % COLORS.length];
+    const fontFile = config.composite.placeholderFontFile;
+
+    const drawText = [
+      `text='${input.name}'`,
+      ...(fontFile ? [`fontfile='${fontFile}'`] : []),
+      "fontcolor=white",
+      `fontsize=${FONT_SIZE}`,
+      "x=(w-text_w)/2",
+      "y=(h-text_h)/2",
+    ].join(":");
+
+    return (
+      `color=c=${color}:s=${width}x${height}:r=${FRAME_RATE},` +
+      `drawtext=${drawText},setsar=1`
+    );
+  }
+
+  /**
+   * Senders using Opus DTX stop sending during silence; the gaps are filled
+   * so that audio stays in sync with video.
+   */
+  private buildAudioFilters(streams: number[]): string[] {
+    const { SAMPLE_RATE, CHANNELS } = FFMPEG.AUDIO;
+
+    if (streams.length === 0) {
+      const layout = CHANNELS === 2 ? "stereo" : "mono";
+      return [`anullsrc=r=${SAMPLE_RATE}:cl=${layout}[a]`];
+    }
+
+    if (streams.length === 1) {
+      return [`[0:${streams[0]}]asetpts=PTS-STARTPTS,aresample=async=1[a]`];
+    }
+
+    const sources = streams.map((stream) => `[a${stream}]`).join("");
+    return [
+      ...streams.map((stream) => `[0:${stream}]aresample=async=1[a${stream}]`),
+      `${sources}amix=inputs=${streams.length}:dropout_transition=0[a]`,
+    ];
+  }
+
+  private buildFFmpegArgs(passthrough?: VideoStream): string[] {
     return [
       "-protocol_whitelist",
       "file,udp,rtp",
@@ -59,82 +730,251 @@ export class FFmpegService implements FFmpegManager {
       "-fflags",
       "+genpts+discardcorrupt+igndts",
       "-analyzeduration",
-      "3000000",
+      String(FFMPEG.ANALYSIS.DURATION),
       "-probesize",
-      "3000000",
+      String(FFMPEG.ANALYSIS.PROBE_SIZE),
       "-max_delay",
-      "500000",
+      String(FFMPEG.ANALYSIS.MAX_DELAY),
       "-buffer_size",
-      "65536",
+      String(FFMPEG.ANALYSIS.BUFFER_SIZE),
       // Input
       "-i",
-      "./stream.sdp",
-      // Filter complex: scale both videos and combine side by side, merge audio
+      this.sdpPath,
+      // Filter complex: tile all videos into a grid, mix all audio, split
+      // both into the renditions
       "-filter_complex",
-      "[0:0]setpts=PTS-STARTPTS,scale=320:240[v0]; [0:2]setpts=PTS-STARTPTS,scale=320:240[v1]; [v0][v1]hstack=inputs=2[v]; [0:1][0:3]amerge=inputs=2[a]",
-      // Mapping - map the filter outputs
-      "-map",
-      "[v]",
-      "-map",
-      "[a]",
+      this.buildFilterGraph(passthrough),
+      // Mapping - one video and one audio output per rendition
+      ...this.buildRenditionArgs(passthrough),
       // Video codec settings
       "-c:v",
       "libx264",
       "-preset",
-      "veryfast",
+      FFMPEG.VIDEO.PRESET,
       "-tune",
-      "zerolatency",
+      FFMPEG.VIDEO.TUNE,
       "-pix_fmt",
-      "yuv420p",
-      "-g",
-      "30",
+      FFMPEG.VIDEO.PIX_FMT,
+      ...this.buildKeyFrameArgs(),
       "-sc_threshold",
       "0",
+      ...this.buildPassthroughArgs(passthrough),
       // Audio codec settings
       "-c:a",
       "aac",
       "-ar",
-      "44100",
+      String(FFMPEG.AUDIO.SAMPLE_RATE),
       "-ac",
-      "2",
+      String(FFMPEG.AUDIO.CHANNELS),
       "-b:a",
-      "128k",
+      FFMPEG.AUDIO.BITRATE,
       // HLS settings
       "-f",
       "hls",
       "-hls_time",
-      "2",
-      "-hls_list_size",
-      "5",
-      "-hls_flags",
-      "append_list",
+      String(this.getSegmentDuration()),
+      ...this.buildPlaylistArgs(),
       "-hls_allow_cache",
       "0",
+      ...this.buildSegmentArgs(),
+      "-master_pl_name",
+      path.basename(this.getPlaylistPath()),
+      "-var_stream_map",
+      config.hls.renditions
+        .map(({ name }, index) => `v:${index},a:${index},name:${name}`)
+        .join(" "),
+      path.resolve(this.outputDir, "stream_%v.m3u8"),
+    ];
+  }
+
+  /**
+   * In low-latency mode every segment FFmpeg writes is a partial segment of
+   * the playlist served by LowLatencyHlsService, and each must start with a
+   * key frame.
+   */
+  private getSegmentDuration(): number {
+    return config.hls.lowLatency
+      ? FFMPEG.LOW_LATENCY_HLS.PART_DURATION
+      : FFMPEG.HLS.TIME;
+  }
+
+  private buildKeyFrameArgs(): string[] {
+    if (!config.hls.lowLatency) {
+      return ["-g", String(FFMPEG.VIDEO.GOP_SIZE)];
+    }
+
+    const { PART_DURATION } = FFMPEG.LOW_LATENCY_HLS;
+    return [
+      "-g",
+      String(Math.round(FFMPEG.VIDEO.FRAME_RATE * PART_DURATION)),
+      "-force_key_frames",
+      `expr:gte(t,n_forced*${PART_DURATION})`,
+    ];
+  }
+
+  private buildSegmentArgs(): string[] {
+    if (!config.hls.lowLatency) {
+      return [
+        "-hls_segment_type",
+        FFMPEG.HLS.SEGMENT_TYPE,
+        "-hls_segment_filename",
+        path.resolve(this.outputDir, "stream_%v_%d.ts"),
+      ];
+    }
+
+    return [
       "-hls_segment_type",
-      "mpegts",
-      path.resolve(this.outputDir, "stream.m3u8"),
+      FFMPEG.LOW_LATENCY_HLS.SEGMENT_TYPE,
+      "-hls_fmp4_init_filename",
+      "init_%v.mp4",
+      "-hls_segment_filename",
+      path.resolve(this.outputDir, "stream_%v_%d.m4s"),
     ];
   }
 
-  private setupEventHandlers(): void {
-    if (!this.process) return;
+  private buildRenditionArgs(passthrough?: VideoStream): string[] {
+    const encodedRenditions = this.getEncodedRenditions(passthrough);
 
-    this.process.stdout?.on("data", (data: Buffer) => {
+    return config.hls.renditions.flatMap(({ videoBitrate }, index) => {
+      if (passthrough && !encodedRenditions.includes(index)) {
+        return ["-map", `0:${passthrough.streamIndex}`, "-map", `[aout${index}]`];
+      }
+
+      return [
+        "-map",
+        `[vout${index}]`,
+        "-map",
+        `[aout${index}]`,
+        `-b:v:${index}`,
+        `${videoBitrate}k`,
+        `-maxrate:v:${index}`,
+        `${videoBitrate}k`,
+        `-bufsize:v:${index}`,
+        `${videoBitrate * 2}k`,
+      ];
+    });
+  }
+
+  /**
+   * Overrides the video codec of the copied rendition; it has to follow the
+   * general `-c:v` to take precedence.
+   */
+  private buildPassthroughArgs(passthrough?: VideoStream): string[] {
+    if (!passthrough) return [];
+
+    const topIndex = config.hls.renditions.indexOf(this.getTopRendition());
+    return [`-c:v:${topIndex}`, "copy"];
+  }
+
+  /**
+   * The playlist is kept open across restarts in every mode: segment
+   * numbering continues, a discontinuity marks the new layout and no ENDLIST
+   * tag makes players stop. Program date times let players measure their
+   * latency.
+   */
+  private buildPlaylistArgs(): string[] {
+    const flags = [
+      "append_list",
+      "omit_endlist",
+      "discont_start",
+      "program_date_time",
+    ];
+
+    if (config.hls.lowLatency) {
+      // Parts only appear once they are complete
+      flags.push("temp_file", "independent_segments");
+    }
+
+    switch (config.hls.mode) {
+      case "dvr": {
+        const listSize = Math.ceil(
+          config.hls.dvrWindowSeconds / this.getSegmentDuration()
+        );
+        return [
+          "-hls_list_size",
+          String(listSize),
+          "-hls_flags",
+          [...flags, "delete_segments"].join("+"),
+        ];
+      }
+      case "event":
+        return [
+          "-hls_playlist_type",
+          "event",
+          "-hls_list_size",
+          "0",
+          "-hls_flags",
+          flags.join("+"),
+        ];
+      default:
+        return [
+          "-hls_list_size",
+          String(
+            config.hls.lowLatency
+              ? FFMPEG.LOW_LATENCY_HLS.LIST_SIZE
+              : FFMPEG.HLS.LIST_SIZE
+          ),
+          "-hls_flags",
+          flags.join("+"),
+        ];
+    }
+  }
+
+  private setupEventHandlers(ffmpegProcess: ChildProcess): void {
+    ffmpegProcess.stdout?.on("data", (data: Buffer) => {
       console.log(`FFmpeg stdout: ${data.toString()}`);
     });
 
-    this.process.stderr?.on("data", (data: Buffer) => {
-      console.log(`FFmpeg stderr: ${data.toString()}`);
+    ffmpegProcess.stderr?.on("data", (data: Buffer) => {
+      const output = data.toString();
+      console.log(`FFmpeg stderr: ${output}`);
+      if (this.process === ffmpegProcess) {
+        this.parseProgress(output);
+      }
     });
 
-    this.process.on("close", (code: number) => {
+    // Processes that were stopped or replaced are no longer this.process
+    ffmpegProcess.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
       console.log(`FFmpeg process exited with code ${code}`);
-      this.process = null;
+      if (this.process === ffmpegProcess) {
+        this.handleCrash(`exited with ${code ?? signal}`);
+      }
     });
 
-    this.process.on("error", (error: Error) => {
+    ffmpegProcess.on("error", (error: Error) => {
       console.error("FFmpeg process error:", error);
-      this.process = null;
+      if (this.process === ffmpegProcess) {
+        this.handleCrash(`failed: ${error.message}`);
+      }
     });
   }
-} 
\ No newline at end of file
+
+  private handleCrash(reason: string): void {
+    this.process = null;
+    this.clearWatchdog();
+    this.clearKeyFrameTimers();
+    rmSync(this.sdpPath, { force: true });
+    this.scheduleRestart(reason);
+  }
+
+  /**
+   * Keeps the last reported fps and speed and when a segment was last
+   * opened. A chunk of stderr may hold several progress lines.
+   */
+  private parseProgress(output: string): void {
+    const fps = [...output.matchAll(FPS_PATTERN)].pop();
+    if (fps) this.progress.fps = Number(fps[1]);
+
+    const speed = [...output.matchAll(SPEED_PATTERN)].pop();
+    if (speed) this.progress.speed = Number(speed[1]);
+
+    if (fps || speed) {
+      this.lastProgressAt = Date.now();
+      this.setState("running");
+    }
+
+    if (SEGMENT_PATTERN.test(output)) {
+      this.progress.lastSegmentAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { existsSync, readdirSync, readFileSync, rmSync, statSync } from "fs";
+import path from "path";
+import { config } from "../config";
+import { HLS_CLEANUP, HLS_HTTP } from "../config/constants";
+import type { RoomManager } from "./RoomManager";
+
+/**
+ * Periodically removes HLS output nobody can request anymore: segments that
+ * left every playlist of their room (FFmpeg only deletes them itself in dvr
+ * mode) and the whole output of rooms that closed a while ago.
+ */
+export class HlsCleanupService {
+  private readonly directory: string;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly roomManager: RoomManager) {
+    this.directory = config.hls.outputDirectory;
+  }
+
+  public start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.cleanup(), HLS_CLEANUP.INTERVAL);
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private cleanup(): void {
+    if (!existsSync(this.directory)) return;
+
+    const activeRoomIds = new Set(this.roomManager.getAllRoomIds());
+    const now = Date.now();
+
+    for (const entry of readdirSync(this.directory, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+
+      const roomDir = path.resolve(this.directory, entry.name);
+
+      try {
+        if (
+          !activeRoomIds.has(entry.name) &&
+          now - this.getLastModified(roomDir) > HLS_CLEANUP.ROOM_AGE
+        ) {
+          rmSync(roomDir, { recursive: true, force: true });
+          console.info(`Removed HLS output of closed room ${entry.name}`);
+          continue;
+        }
+
+        this.removeStaleSegments(roomDir, now);
+      } catch (error) {
+        console.error(`Failed to clean up HLS output in ${roomDir}:`, error);
+      }
+    }
+  }
+
+  private removeStaleSegments(roomDir: string, now: number): void {
+    const files = readdirSync(roomDir);
+    const referenced = new Set(
+      files
+        .filter((file) => file.endsWith(".m3u8"))
+        .flatMap((file) =>
+          readFileSync(path.resolve(roomDir, file), "utf8")
+            .split("\n")
+            .map((line) => line.trim())
+            .filter((line) => line && !line.startsWith("#"))
+        )
+    );
+
+    let removed = 0;
+
+    for (const file of files) {
+      const isSegment = HLS_HTTP.SEGMENT_EXTENSIONS.some((extension) =>
+        file.endsWith(extension)
+      );
+      if (!isSegment || referenced.has(file)) continue;
+
+      const filePath = path.resolve(roomDir, file);
+      if (now - statSync(filePath).mtimeMs > HLS_CLEANUP.SEGMENT_AGE) {
+        rmSync(filePath, { force: true });
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      console.log(`Removed ${removed} stale segments from ${roomDir}`);
+    }
+  }
+
+  private getLastModified(roomDir: string): number {
+    return readdirSync(roomDir).reduce(
+      (latest, file) =>
+        Math.max(latest, statSync(path.resolve(roomDir, file)).mtimeMs),
+      statSync(roomDir).mtimeMs
+    );
+  }
+}
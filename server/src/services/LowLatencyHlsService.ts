@@ -0,0 +1,417 @@
+import { EventEmitter } from "events";
+import { existsSync, readFileSync, statSync } from "fs";
+import path from "path";
+import { config } from "../config";
+import { FFMPEG, LOW_LATENCY_HLS } from "../config/constants";
+
+// A segment written by FFmpeg, served as one partial segment
+interface HlsPart {
+  sequence: number;
+  uri: string;
+  duration: number;
+  discontinuity: boolean;
+  programDateTime: string | null;
+}
+
+interface LowLatencySegment {
+  sequence: number;
+  parts: HlsPart[];
+  complete: boolean;
+}
+
+interface VariantPlaylist {
+  mapUri: string | null;
+  segments: LowLatencySegment[];
+  nextSegmentSequence: number;
+  lastPartSequence: number;
+  discontinuitySequence: number;
+  lastModified: number;
+}
+
+interface ParsedMediaPlaylist {
+  mediaSequence: number;
+  mapUri: string | null;
+  parts: HlsPart[];
+}
+
+const PART_FILE_PATTERN = /^stream_(.+)_(\d+)\.m4s$/;
+const SEGMENT_FILE_PATTERN = /^segment_(.+)_(\d+)\.m4s$/;
+
+/**
+ * Turns the short fMP4 segments FFmpeg writes in low-latency mode into
+ * LL-HLS media playlists: every FFmpeg segment becomes a partial segment,
+ * and PARTS_PER_SEGMENT consecutive parts make up a full segment that is
+ * served by concatenating the part files.
+ */
+export class LowLatencyHlsService {
+  private variants = new Map<string, VariantPlaylist>(); // rendition name -> playlist
+  private updates = new EventEmitter();
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param outputDir - Directory FFmpeg writes the room's HLS output to
+   */
+  constructor(private readonly outputDir: string) {
+    // Every waiting playlist and part request listens for updates
+    this.updates.setMaxListeners(0);
+
+    for (const { name } of config.hls.renditions) {
+      this.variants.set(name, {
+        mapUri: null,
+        segments: [],
+        nextSegmentSequence: 0,
+        lastPartSequence: -1,
+        discontinuitySequence: 0,
+        lastModified: 0,
+      });
+    }
+  }
+
+  public start(): void {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(
+      () => this.pollPlaylists(),
+      LOW_LATENCY_HLS.POLL_INTERVAL
+    );
+  }
+
+  public stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.updates.emit("update");
+  }
+
+  public hasVariant(name: string): boolean {
+    return this.variants.has(name);
+  }
+
+  /**
+   * Whether a blocking request asks for a segment that is more than two
+   * segments ahead of the playlist, which the LL-HLS spec rejects.
+   */
+  public isBeyondLiveEdge(name: string, msn: number): boolean {
+    const variant = this.variants.get(name);
+    const lastSegment = variant?.segments[variant.segments.length - 1];
+    const lastSequence = lastSegment?.sequence ?? variant?.nextSegmentSequence ?? 0;
+
+    return msn > lastSequence + 2;
+  }
+
+  /**
+   * Renders the media playlist of a rendition. With `msn` (and `part`) the
+   * playlist is only returned once it contains that segment (or part of the
+   * segment), or once BLOCK_TIMEOUT has passed.
+   */
+  public async getMediaPlaylist(
+    name: string,
+    msn?: number,
+    part?: number
+  ): Promise<string | null> {
+    const variant = this.variants.get(name);
+    if (!variant) return null;
+
+    if (msn !== undefined) {
+      await this.waitFor(() => this.containsPart(variant, msn, part));
+    }
+
+    return this.renderMediaPlaylist(name, variant);
+  }
+
+  /**
+   * Resolves the path of a part file. A request for the part announced by
+   * the preload hint is held until FFmpeg has written it.
+   */
+  public async getPartPath(file: string): Promise<string | null> {
+    const match = PART_FILE_PATTERN.exec(file);
+    const variant = match ? this.variants.get(match[1]) : undefined;
+    if (!match || !variant) return null;
+
+    const sequence = Number(match[2]);
+    const filePath = path.resolve(this.outputDir, file);
+
+    if (sequence === variant.lastPartSequence + 1) {
+      await this.waitFor(() => variant.lastPartSequence >= sequence);
+    }
+
+    return existsSync(filePath) ? filePath : null;
+  }
+
+  /**
+   * Returns a complete segment as the concatenation of its part files.
+   */
+  public getSegment(file: string): Buffer | null {
+    const match = SEGMENT_FILE_PATTERN.exec(file);
+    const variant = match ? this.variants.get(match[1]) : undefined;
+    if (!match || !variant) return null;
+
+    const sequence = Number(match[2]);
+    const segment = variant.segments.find(
+      (candidate) => candidate.sequence === sequence && candidate.complete
+    );
+    if (!segment) return null;
+
+    try {
+      return Buffer.concat(
+        segment.parts.map((part) =>
+          readFileSync(path.resolve(this.outputDir, part.uri))
+        )
+      );
+    } catch (error) {
+      console.error(`Failed to read segment ${file}:`, error);
+      return null;
+    }
+  }
+
+  private waitFor(condition: () => boolean): Promise<void> {
+    if (condition() || !this.pollTimer) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      const finish = () => {
+        clearTimeout(timeout);
+        this.updates.off("update", check);
+        resolve();
+      };
+      const check = () => {
+        if (condition() || !this.pollTimer) finish();
+      };
+      const timeout = setTimeout(finish, LOW_LATENCY_HLS.BLOCK_TIMEOUT);
+
+      this.updates.on("update", check);
+    });
+  }
+
+  private containsPart(
+    variant: VariantPlaylist,
+    msn: number,
+    part?: number
+  ): boolean {
+    const firstSegment = variant.segments[0];
+    if (firstSegment && msn < firstSegment.sequence) return true;
+
+    const segment = variant.segments.find(
+      (candidate) => candidate.sequence === msn
+    );
+    if (!segment) return false;
+
+    return (
+      segment.complete || (part !== undefined && segment.parts.length > part)
+    );
+  }
+
+  private pollPlaylists(): void {
+    let updated = false;
+
+    for (const [name, variant] of this.variants) {
+      const playlistPath = path.resolve(this.outputDir, `stream_${name}.m3u8`);
+
+      try {
+        if (!existsSync(playlistPath)) continue;
+
+        const { mtimeMs } = statSync(playlistPath);
+        if (mtimeMs === variant.lastModified) continue;
+        variant.lastModified = mtimeMs;
+
+        const playlist = parseMediaPlaylist(readFileSync(playlistPath, "utf8"));
+        updated = this.applyPlaylist(variant, playlist) || updated;
+      } catch (error) {
+        console.error(`Failed to read playlist ${playlistPath}:`, error);
+      }
+    }
+
+    if (updated) {
+      this.updates.emit("update");
+    }
+  }
+
+  /**
+   * Adds FFmpeg's new segments as parts and drops segments whose parts left
+   * FFmpeg's playlist. A discontinuity always starts a new segment.
+   */
+  private applyPlaylist(
+    variant: VariantPlaylist,
+    playlist: ParsedMediaPlaylist
+  ): boolean {
+    const { PARTS_PER_SEGMENT } = FFMPEG.LOW_LATENCY_HLS;
+    const lastParsed = playlist.parts[playlist.parts.length - 1];
+    let restarted = false;
+
+    // FFmpeg started a new playlist, e.g. after its files were removed
+    if (lastParsed && lastParsed.sequence < variant.lastPartSequence) {
+      variant.lastPartSequence = -1;
+      restarted = true;
+    }
+
+    const newParts = playlist.parts.filter(
+      (part) => part.sequence > variant.lastPartSequence
+    );
+
+    for (const part of newParts) {
+      if (restarted) {
+        part.discontinuity = true;
+        restarted = false;
+      }
+
+      let segment = variant.segments[variant.segments.length - 1];
+
+      if (segment && !segment.complete && part.discontinuity) {
+        segment.complete = true;
+      }
+
+      if (!segment || segment.complete) {
+        segment = {
+          sequence: variant.nextSegmentSequence++,
+          parts: [],
+          complete: false,
+        };
+        variant.segments.push(segment);
+      }
+
+      segment.parts.push(part);
+      segment.complete = segment.parts.length >= PARTS_PER_SEGMENT;
+      variant.lastPartSequence = part.sequence;
+    }
+
+    variant.mapUri = playlist.mapUri ?? variant.mapUri;
+
+    while (
+      variant.segments.length > 0 &&
+      variant.segments[0].parts[0].sequence < playlist.mediaSequence
+    ) {
+      const removed = variant.segments.shift()!;
+      if (removed.parts[0].discontinuity) {
+        variant.discontinuitySequence++;
+      }
+    }
+
+    return newParts.length > 0;
+  }
+
+  private renderMediaPlaylist(name: string, variant: VariantPlaylist): string {
+    const { PART_DURATION, PARTS_PER_SEGMENT } = FFMPEG.LOW_LATENCY_HLS;
+    const { segments } = variant;
+    const allParts = segments.flatMap((segment) => segment.parts);
+
+    const partTarget = Math.max(
+      PART_DURATION,
+      ...allParts.map((part) => part.duration)
+    );
+    const targetDuration = Math.ceil(
+      Math.max(
+        partTarget * PARTS_PER_SEGMENT,
+        ...segments.map((segment) => getSegmentDuration(segment))
+      )
+    );
+
+    const lines = [
+      "#EXTM3U",
+      "#EXT-X-VERSION:7",
+      `#EXT-X-TARGETDURATION:${targetDuration}`,
+      `#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,PART-HOLD-BACK=${(partTarget * 3).toFixed(3)}`,
+      `#EXT-X-PART-INF:PART-TARGET=${partTarget.toFixed(3)}`,
+      `#EXT-X-MEDIA-SEQUENCE:${segments[0]?.sequence ?? variant.nextSegmentSequence}`,
+      `#EXT-X-DISCONTINUITY-SEQUENCE:${variant.discontinuitySequence}`,
+    ];
+
+    if (config.hls.mode === "event") {
+      lines.push("#EXT-X-PLAYLIST-TYPE:EVENT");
+    }
+
+    lines.push("#EXT-X-INDEPENDENT-SEGMENTS");
+
+    if (variant.mapUri) {
+      lines.push(`#EXT-X-MAP:URI="${variant.mapUri}"`);
+    }
+
+    // Parts are listed for the open segment and the latest complete ones
+    const completeCount = segments.filter((segment) => segment.complete).length;
+    let completeIndex = 0;
+
+    for (const segment of segments) {
+      const [firstPart] = segment.parts;
+
+      if (firstPart.discontinuity) {
+        lines.push("#EXT-X-DISCONTINUITY");
+      }
+      if (firstPart.programDateTime) {
+        lines.push(`#EXT-X-PROGRAM-DATE-TIME:${firstPart.programDateTime}`);
+      }
+
+      const listParts =
+        !segment.complete ||
+        completeCount - completeIndex <= LOW_LATENCY_HLS.PART_LIST_SEGMENTS;
+
+      if (listParts) {
+        for (const part of segment.parts) {
+          lines.push(
+            `#EXT-X-PART:DURATION=${part.duration.toFixed(3)},URI="${part.uri}",INDEPENDENT=YES`
+          );
+        }
+      }
+
+      if (segment.complete) {
+        completeIndex++;
+        lines.push(
+          `#EXTINF:${getSegmentDuration(segment).toFixed(3)},`,
+          `segment_${name}_${segment.sequence}.m4s`
+        );
+      }
+    }
+
+    const lastPart = allParts[allParts.length - 1];
+    if (lastPart) {
+      const nextUri = lastPart.uri.replace(
+        /_\d+\.m4s$/,
+        `_${lastPart.sequence + 1}.m4s`
+      );
+      lines.push(`#EXT-X-PRELOAD-HINT:TYPE=PART,URI="${nextUri}"`);
+    }
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+function getSegmentDuration(segment: LowLatencySegment): number {
+  return segment.parts.reduce((total, part) => total + part.duration, 0);
+}
+
+function parseMediaPlaylist(content: string): ParsedMediaPlaylist {
+  const playlist: ParsedMediaPlaylist = {
+    mediaSequence: 0,
+    mapUri: null,
+    parts: [],
+  };
+  let duration = 0;
+  let discontinuity = false;
+  let programDateTime: string | null = null;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.trim();
+
+    if (line.startsWith("#EXT-X-MEDIA-SEQUENCE:")) {
+      playlist.mediaSequence = Number(line.split(":")[1]);
+    } else if (line.startsWith("#EXT-X-MAP:")) {
+      playlist.mapUri = /URI="([^"]+)"/.exec(line)?.[1] ?? null;
+    } else if (line.startsWith("#EXTINF:")) {
+      duration = parseFloat(line.slice("#EXTINF:".length));
+    } else if (line === "#EXT-X-DISCONTINUITY") {
+      discontinuity = true;
+    } else if (line.startsWith("#EXT-X-PROGRAM-DATE-TIME:")) {
+      programDateTime = line.slice("#EXT-X-PROGRAM-DATE-TIME:".length);
+    } else if (line && !line.startsWith("#")) {
+      playlist.parts.push({
+        sequence: playlist.mediaSequence + playlist.parts.length,
+        uri: line,
+        duration,
+        discontinuity,
+        programDateTime,
+      });
+      discontinuity = false;
+      programDateTime = null;
+    }
+  }
+
+  return playlist;
+}
@@ -1,20 +1,29 @@
-import * as mediasoup from "mediasoup";
 import type { types } from "mediasoup";
 import { config } from "../config";
-import type { RtpTransportConfig } from "../types";
+import type { RtpPortPair } from "../types";
+import type { WorkerService } from "./WorkerService";
 
+/**
+ * Owns a room's routers. Producers and FFmpeg's consumers live on the main
+ * router; once it has too many consumers, receive transports are created on
+ * routers on other workers, and producers are piped to them when consumed.
+ */
 export class MediasoupService {
-  private worker: types.Worker | null = null;
   private router: types.Router | null = null;
-  private rtpTransports: RtpTransportConfig = {
-    videoTransports: [],
-    audioTransports: [],
-  };
+  private pipeRouters: types.Router[] = [];
+  private pendingPipeRouter: Promise<types.Router> | null = null;
+  private consumerCounts = new Map<string, number>(); // routerId -> consumers
+  private transportRouters = new Map<string, types.Router>(); // WebRTC transportId -> router
+  private pipedProducers = new Map<string, Promise<void>>(); // routerId:producerId -> piping
+  private rtpTransports = new Map<string, types.PlainTransport>(); // consumerId -> transport
+
+  /**
+   * @param workerService - Worker the router of this room is created on
+   */
+  constructor(private readonly workerService: WorkerService) {}
 
   public async initialize(): Promise<void> {
-    await this.createWorker();
     await this.createRouter();
-    await this.initializeRtpTransports();
   }
 
   public getRouter(): types.Router {
@@ -28,10 +37,75 @@ export class MediasoupService {
     return this.getRouter().rtpCapabilities;
   }
 
-  public async createWebRtcTransport(): Promise<types.WebRtcTransport> {
-    return await this.getRouter().createWebRtcTransport(
+  /**
+   * Creates a transport on the main router for sending, or on a router
+   * with room for more consumers for receiving.
+   */
+  public async createWebRtcTransport(
+    isSender: boolean
+  ): Promise<types.WebRtcTransport> {
+    const router = isSender ? this.getRouter() : await this.getConsumerRouter();
+    const transport = await router.createWebRtcTransport(
       config.mediasoup.webRtcTransport
     );
+
+    this.transportRouters.set(transport.id, router);
+    transport.observer.once("close", () => {
+      this.transportRouters.delete(transport.id);
+    });
+
+    return transport;
+  }
+
+  /**
+   * Creates a PipeTransport on the main router for a cascade link to
+   * another node.
+   */
+  public async createPipeTransport(): Promise<types.PipeTransport> {
+    return await this.getRouter().createPipeTransport({
+      listenInfo: {
+        protocol: "udp",
+        ip: config.cluster.pipeListenIp,
+        announcedAddress: config.cluster.pipeAnnouncedIp,
+      },
+      enableRtx: true,
+    });
+  }
+
+  /**
+   * Pipes a producer from the main router to the router of a receive
+   * transport, unless it is already there.
+   */
+  public async pipeProducerToTransport(
+    producerId: string,
+    transport: types.WebRtcTransport
+  ): Promise<void> {
+    const router = this.transportRouters.get(transport.id);
+    if (!router || router === this.getRouter()) return;
+
+    const key = `${router.id}:${producerId}`;
+    let piping = this.pipedProducers.get(key);
+
+    if (!piping) {
+      piping = this.getRouter()
+        .pipeToRouter({ producerId, router })
+        .then(({ pipeProducer }) => {
+          pipeProducer?.observer.once("close", () => {
+            this.pipedProducers.delete(key);
+          });
+        });
+      piping.catch(() => this.pipedProducers.delete(key));
+      this.pipedProducers.set(key, piping);
+    }
+
+    await piping;
+  }
+
+  /**
+   * Whether one of the room's routers was closed with its worker.
+   */
+  public hasClosedRouter(): boolean {
+    return [this.router, ...this.pipeRouters].some((router) => router?.closed);
   }
 
   public canConsume(params: {
@@ -41,35 +115,31 @@ export class MediasoupService {
     return this.getRouter().canConsume(params);
   }
 
+  /**
+   * Sends a producer to an FFmpeg process over its own PlainTransport. The
+   * transport is closed together with the returned consumer.
+   */
   public async createRtpConsumer(
     producer: types.Producer,
-    transportIndex: number
+    ports: RtpPortPair
   ): Promise<types.Consumer | null> {
+    let rtpTransport: types.PlainTransport | undefined;
+
     try {
-      const rtpTransports =
-        producer.kind === "video"
-          ? this.rtpTransports.videoTransports
-          : this.rtpTransports.audioTransports;
-      
-      const rtpTransport = rtpTransports[transportIndex];
-
-      if (!rtpTransport) {
-        console.error(
-          `No RTP transport available for ${producer.kind} at index ${transportIndex}`
-        );
-        return null;
-      }
+      rtpTransport = await this.createAndConnectPlainTransport(ports);
 
       const consumer = await rtpTransport.consume({
         producerId: producer.id,
         rtpCapabilities: this.getRtpCapabilities(),
       });
 
-      this.logConsumerCreation(producer, consumer, transportIndex);
+      this.rtpTransports.set(consumer.id, rtpTransport);
+      this.logConsumerCreation(producer, consumer, ports);
       this.setupConsumerEventHandlers(consumer, producer.id);
 
       return consumer;
     } catch (error) {
+      rtpTransport?.close();
       console.error(
         `Failed to create RTP consumer for ${producer.kind}:`,
         error
@@ -82,94 +152,73 @@ export class MediasoupService {
     console.info("Cleaning up MediaSoup resources...");
     
     // Close all RTP transports
-    [...this.rtpTransports.videoTransports, ...this.rtpTransports.audioTransports]
-      .forEach(transport => transport.close());
-    
-    // Close router
+    this.rtpTransports.forEach((transport) => transport.close());
+    this.rtpTransports.clear();
+
+    // Close routers
+    this.pipeRouters.forEach((router) => router.close());
+    this.pipeRouters = [];
     if (this.router) {
       this.router.close();
       this.router = null;
     }
-
-    // Close worker
-    if (this.worker) {
-      this.worker.close();
-      this.worker = null;
-    }
   }
 
-  private async createWorker(): Promise<void> {
-    this.worker = await mediasoup.createWorker({
-      logLevel: config.mediasoup.worker.logLevel,
-      logTags: config.mediasoup.worker.logTags as types.WorkerLogTag[],
-      rtcMinPort: config.mediasoup.worker.rtcMinPort,
-      rtcMaxPort: config.mediasoup.worker.rtcMaxPort,
-    });
-
-    this.worker.on("died", () => {
-      console.error("MediaSoup worker has died");
-      setTimeout(() => process.exit(1), 2000);
-    });
+  private async createRouter(): Promise<void> {
+    this.router = await this.workerService.createRouter();
+    this.trackConsumers(this.router);
 
-    console.info("MediaSoup worker created");
+    console.info("MediaSoup router created");
   }
 
-  private async createRouter(): Promise<void> {
-    if (!this.worker) {
-      throw new Error("Worker not initialized");
-    }
+  private async getConsumerRouter(): Promise<types.Router> {
+    const { maxConsumers } = config.mediasoup.router;
+    const router = [this.getRouter(), ...this.pipeRouters].find(
+      (candidate) => (this.consumerCounts.get(candidate.id) ?? 0) < maxConsumers
+    );
+    if (router) return router;
 
-    this.router = await this.worker.createRouter({
-      mediaCodecs: config.mediasoup.router.mediaCodecs,
+    // Receivers joining at the same time share one new router
+    this.pendingPipeRouter ??= this.createPipeRouter().finally(() => {
+      this.pendingPipeRouter = null;
     });
-
-    console.info("MediaSoup router created");
+    return await this.pendingPipeRouter;
   }
 
-  private async initializeRtpTransports(): Promise<void> {
-    try {
-      await this.createVideoTransports();
-      await this.createAudioTransports();
-      console.log("All RTP transports initialized successfully");
-    } catch (error) {
-      console.error("Failed to initialize RTP transports:", error);
-      throw error;
-    }
-  }
+  private async createPipeRouter(): Promise<types.Router> {
+    const usedWorkers = [this.getRouter(), ...this.pipeRouters]
+      .map((router) => this.workerService.getRouterWorker(router))
+      .filter((worker): worker is types.Worker => worker !== undefined);
 
-  private async createVideoTransports(): Promise<void> {
-    // Video transport 1 (port 5004)
-    const videoTransport1 = await this.createAndConnectPlainTransport(
-      config.rtpPlayer.videoPort
-    );
-    this.rtpTransports.videoTransports.push(videoTransport1);
-    console.log(`Video RTP transport 1 connected on port ${config.rtpPlayer.videoPort}`);
+    const router = await this.workerService.createRouter(usedWorkers);
+    this.trackConsumers(router);
+    this.pipeRouters.push(router);
 
-    // Video transport 2 (port 5008)
-    const videoTransport2 = await this.createAndConnectPlainTransport(
-      config.rtpPlayer.videoPort2
-    );
-    this.rtpTransports.videoTransports.push(videoTransport2);
-    console.log(`Video RTP transport 2 connected on port ${config.rtpPlayer.videoPort2}`);
+    console.info(`MediaSoup routers are full, receivers move to router ${router.id}`);
+    return router;
   }
 
-  private async createAudioTransports(): Promise<void> {
-    // Audio transport 1 (port 5006)
-    const audioTransport1 = await this.createAndConnectPlainTransport(
-      config.rtpPlayer.audioPort
-    );
-    this.rtpTransports.audioTransports.push(audioTransport1);
-    console.log(`Audio RTP transport 1 connected on port ${config.rtpPlayer.audioPort}`);
+  private trackConsumers(router: types.Router): void {
+    const change = (delta: number) => {
+      if (router.closed) return;
+      this.consumerCounts.set(
+        router.id,
+        (this.consumerCounts.get(router.id) ?? 0) + delta
+      );
+    };
 
-    // Audio transport 2 (port 5010)
-    const audioTransport2 = await this.createAndConnectPlainTransport(
-      config.rtpPlayer.audioPort2
-    );
-    this.rtpTransports.audioTransports.push(audioTransport2);
-    console.log(`Audio RTP transport 2 connected on port ${config.rtpPlayer.audioPort2}`);
+    router.observer.on("newtransport", (transport) => {
+      transport.observer.on("newconsumer", (consumer) => {
+        change(1);
+        consumer.observer.once("close", () => change(-1));
+      });
+    });
+    router.observer.once("close", () => {
+      this.consumerCounts.delete(router.id);
+    });
   }
 
-  private async createAndConnectPlainTransport(port: number): Promise<types.PlainTransport> {
+  private async createAndConnectPlainTransport(ports: RtpPortPair): Promise<types.PlainTransport> {
     const transport = await this.getRouter().createPlainTransport({
       listenIp: config.rtpPlayer.listenIp,
       rtcpMux: false,
@@ -178,8 +227,8 @@ export class MediasoupService {
 
     await transport.connect({
       ip: config.rtpPlayer.listenIp,
-      port: port,
-      rtcpPort: port + 1,
+      port: ports.rtpPort,
+      rtcpPort: ports.rtcpPort,
     });
 
     return transport;
@@ -188,23 +237,22 @@ export class MediasoupService {
   private logConsumerCreation(
     producer: types.Producer,
     consumer: types.Consumer,
-    transportIndex: number
+    ports: RtpPortPair
   ): void {
-    const ports =
-      producer.kind === "video"
-        ? [config.rtpPlayer.videoPort, config.rtpPlayer.videoPort2]
-        : [config.rtpPlayer.audioPort, config.rtpPlayer.audioPort2];
-
     console.log(`Created RTP consumer for ${producer.kind}:`, {
       producerId: producer.id,
       consumerId: consumer.id,
-      transportIndex: transportIndex,
-      port: ports[transportIndex],
+      port: ports.rtpPort,
       payloadType: consumer.rtpParameters.codecs[0]?.payloadType,
     });
   }
 
   private setupConsumerEventHandlers(consumer: types.Consumer, producerId: string): void {
+    consumer.observer.on("close", () => {
+      this.rtpTransports.get(consumer.id)?.close();
+      this.rtpTransports.delete(consumer.id);
+    });
+
     consumer.on("transportclose", () => {
       console.log(`RTP consumer closed for producer ${producerId}`);
     });
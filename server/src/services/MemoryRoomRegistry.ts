@@ -0,0 +1,59 @@
+import type { ClusterNode, RoomRegistry } from "../types";
+
+interface Expiring<T> {
+  value: T;
+  expiresAt: number;
+}
+
+/**
+ * Room registry in memory, for a single node or for nodes that share one
+ * process, e.g. in tests.
+ */
+export class MemoryRoomRegistry implements RoomRegistry {
+  private nodes = new Map<string, Expiring<ClusterNode>>();
+  private origins = new Map<string, Expiring<string>>(); // roomId -> nodeId
+
+  public async registerNode(node: ClusterNode, ttlMs: number): Promise<void> {
+    this.nodes.set(node.id, { value: { ...node }, expiresAt: Date.now() + ttlMs });
+  }
+
+  public async removeNode(nodeId: string): Promise<void> {
+    this.nodes.delete(nodeId);
+  }
+
+  public async getNodes(): Promise<ClusterNode[]> {
+    return [...this.nodes.keys()]
+      .map((nodeId) => this.getLive(this.nodes, nodeId))
+      .filter((node): node is ClusterNode => node !== null)
+      .map((node) => ({ ...node }));
+  }
+
+  public async claimRoom(roomId: string, nodeId: string, ttlMs: number): Promise<string> {
+    const origin = this.getLive(this.origins, roomId) ?? nodeId;
+    if (origin === nodeId) {
+      this.origins.set(roomId, { value: nodeId, expiresAt: Date.now() + ttlMs });
+    }
+    return origin;
+  }
+
+  public async getRoomOrigin(roomId: string): Promise<string | null> {
+    return this.getLive(this.origins, roomId);
+  }
+
+  public async releaseRoom(roomId: string, nodeId: string): Promise<void> {
+    if (this.getLive(this.origins, roomId) === nodeId) {
+      this.origins.delete(roomId);
+    }
+  }
+
+  private getLive<T>(entries: Map<string, Expiring<T>>, key: string): T | null {
+    const entry = entries.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+}
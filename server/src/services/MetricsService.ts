@@ -0,0 +1,238 @@
+import type { types } from "mediasoup";
+import type { Room } from "./Room";
+import type { RoomManager } from "./RoomManager";
+import type { WorkerService } from "./WorkerService";
+
+const PREFIX = "fermion_";
+
+type Labels = Record<string, string>;
+
+interface MetricFamily {
+  help: string;
+  type: "gauge" | "counter";
+  samples: { labels: Labels; value: number }[];
+}
+
+// Samples of one scrape, grouped by metric name
+class MetricSet {
+  private families = new Map<string, MetricFamily>();
+
+  public gauge(name: string, help: string, value: number, labels: Labels = {}): void {
+    this.add(name, help, "gauge", value, labels);
+  }
+
+  public counter(name: string, help: string, value: number, labels: Labels = {}): void {
+    this.add(name, help, "counter", value, labels);
+  }
+
+  private add(
+    name: string,
+    help: string,
+    type: MetricFamily["type"],
+    value: number,
+    labels: Labels
+  ): void {
+    let family = this.families.get(name);
+    if (!family) {
+      family = { help, type, samples: [] };
+      this.families.set(name, family);
+    }
+    family.samples.push({ labels, value });
+  }
+
+  public render(): string {
+    const lines: string[] = [];
+
+    this.families.forEach(({ help, type, samples }, name) => {
+      lines.push(`# HELP ${PREFIX}${name} ${help}`, `# TYPE ${PREFIX}${name} ${type}`);
+      samples.forEach(({ labels, value }) => {
+        lines.push(`${PREFIX}${name}${formatLabels(labels)} ${value}`);
+      });
+    });
+
+    return `${lines.join("\n")}\n`;
+  }
+}
+
+/**
+ * Collects the metrics of rooms, workers, producers and FFmpeg when they
+ * are scraped and renders them in the Prometheus text format.
+ */
+export class MetricsService {
+  private roomsCreated = 0;
+  private roomsFailed = 0;
+  private peersJoined = 0;
+  private peersReconnected = 0;
+  private workersDied = 0;
+
+  constructor(
+    private readonly roomManager: RoomManager,
+    private readonly workerService: WorkerService
+  ) {
+    this.roomManager.on("roomCreated", (room) => {
+      this.roomsCreated++;
+      room.peerManager.on("peerJoined", () => this.peersJoined++);
+      room.peerManager.on("peerReconnected", () => this.peersReconnected++);
+    });
+    this.roomManager.on("roomFailed", () => this.roomsFailed++);
+    this.workerService.on("workerDied", () => this.workersDied++);
+  }
+
+  public async collect(): Promise<string> {
+    const metrics = new MetricSet();
+
+    metrics.counter("rooms_created_total", "Rooms created", this.roomsCreated);
+    metrics.counter("rooms_failed_total", "Rooms closed because their worker died", this.roomsFailed);
+    metrics.counter("peers_joined_total", "Peers that joined a room", this.peersJoined);
+    metrics.counter("peers_reconnected_total", "Peers that resumed their session", this.peersReconnected);
+    metrics.counter("workers_died_total", "MediaSoup workers that died", this.workersDied);
+
+    const rooms = this.roomManager
+      .getAllRoomIds()
+      .map((roomId) => this.roomManager.getRoom(roomId))
+      .filter((room): room is Room => room !== undefined);
+
+    metrics.gauge("rooms", "Open rooms", rooms.length);
+    rooms.forEach((room) => {
+      this.collectRoom(metrics, room);
+      this.collectFFmpeg(metrics, room);
+    });
+
+    await Promise.all([
+      ...this.workerService.getWorkers().map((worker) => this.collectWorker(metrics, worker)),
+      ...rooms.map((room) => this.collectProducerStats(metrics, room)),
+    ]);
+
+    return metrics.render();
+  }
+
+  private collectRoom(metrics: MetricSet, room: Room): void {
+    const { peerManager } = room;
+    const labels = { room: room.id };
+    const peers = peerManager
+      .getAllPeerIds()
+      .map((peerId) => peerManager.getPeer(peerId)!);
+
+    const connected = peers.filter((peer) => peer.socketId !== null).length;
+    metrics.gauge("peers", "Peers in a room", connected, { ...labels, state: "connected" });
+    metrics.gauge("peers", "Peers in a room", peers.length - connected, {
+      ...labels,
+      state: "disconnected",
+    });
+
+    const producers = peers.flatMap((peer) => [...peer.producers.values()]);
+    (["audio", "video"] as const).forEach((kind) => {
+      metrics.gauge(
+        "producers",
+        "Producers in a room",
+        producers.filter((producer) => producer.kind === kind).length,
+        { ...labels, kind }
+      );
+    });
+
+    metrics.gauge(
+      "transports",
+      "WebRTC transports in a room",
+      peers.reduce((count, peer) => count + peer.transports.size, 0),
+      labels
+    );
+    metrics.gauge(
+      "consumers",
+      "Consumers in a room",
+      peers.reduce((count, peer) => count + peer.consumers.size, 0),
+      labels
+    );
+  }
+
+  private collectFFmpeg(metrics: MetricSet, room: Room): void {
+    const stats = room.ffmpegService.getStats();
+    const labels = { room: room.id };
+
+    metrics.gauge("ffmpeg_up", "Whether the room's FFmpeg runs", stats.running ? 1 : 0, labels);
+    metrics.counter("ffmpeg_restarts_total", "FFmpeg restarts of a room after crashes and hangs", stats.restarts, labels);
+    metrics.counter("ffmpeg_crashes_total", "FFmpeg crashes and hangs of a room", stats.crashes, labels);
+    metrics.gauge("ffmpeg_backoff", "Whether the room's FFmpeg waits to restart", stats.state === "backoff" ? 1 : 0, labels);
+    if (stats.speed !== null) {
+      metrics.gauge("ffmpeg_speed", "FFmpeg encoding speed relative to real time", stats.speed, labels);
+    }
+    if (stats.fps !== null) {
+      metrics.gauge("ffmpeg_fps", "Frames FFmpeg encodes per second", stats.fps, labels);
+    }
+    if (stats.lastSegmentAt !== null) {
+      metrics.gauge(
+        "ffmpeg_last_segment_age_seconds",
+        "Time since FFmpeg started the last HLS segment",
+        (Date.now() - stats.lastSegmentAt) / 1000,
+        labels
+      );
+    }
+  }
+
+  private async collectWorker(metrics: MetricSet, worker: types.Worker): Promise<void> {
+    const labels = { pid: String(worker.pid) };
+
+    try {
+      const usage = await worker.getResourceUsage();
+      metrics.counter("worker_cpu_user_seconds_total", "User CPU time of a worker", usage.ru_utime / 1000, labels);
+      metrics.counter("worker_cpu_system_seconds_total", "System CPU time of a worker", usage.ru_stime / 1000, labels);
+      metrics.gauge("worker_max_rss_bytes", "Maximum resident set size of a worker", usage.ru_maxrss * 1024, labels);
+    } catch (error) {
+      console.warn(`Failed to get resource usage of worker ${worker.pid}:`, error);
+    }
+  }
+
+  /**
+   * One sample per RTP stream, so simulcast layers are reported apart.
+   */
+  private async collectProducerStats(metrics: MetricSet, room: Room): Promise<void> {
+    const { peerManager } = room;
+
+    const producers = peerManager.getAllPeerIds().flatMap((peerId) =>
+      [...peerManager.getPeer(peerId)!.producers.values()].map((producer) => ({
+        peerId,
+        producer,
+      }))
+    );
+
+    await Promise.all(
+      producers.map(async ({ peerId, producer }) => {
+        let stats: types.ProducerStat[];
+        try {
+          stats = await producer.getStats();
+        } catch {
+          // Closed while collecting
+          return;
+        }
+
+        const clockRate = producer.rtpParameters.codecs[0]?.clockRate;
+
+        stats.forEach((stream) => {
+          const labels = {
+            room: room.id,
+            peer: peerId,
+            producer: producer.id,
+            kind: producer.kind,
+            ssrc: String(stream.ssrc),
+            ...(stream.rid ? { rid: stream.rid } : {}),
+          };
+
+          metrics.gauge("producer_bitrate_bps", "Bitrate a producer's stream is received at", stream.bitrate, labels);
+          metrics.counter("producer_packets_lost_total", "Packets of a producer's stream that were lost", stream.packetsLost, labels);
+          // RTCP reports the fraction in 1/256
+          metrics.gauge("producer_fraction_lost", "Fraction of packets lost in the last report interval", stream.fractionLost / 256, labels);
+          if (clockRate) {
+            metrics.gauge("producer_jitter_seconds", "Interarrival jitter of a producer's stream", stream.jitter / clockRate, labels);
+          }
+        });
+      })
+    );
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) =>
+      `${key}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
@@ -1,53 +1,191 @@
+import { randomBytes, timingSafeEqual } from "crypto";
+import { EventEmitter } from "events";
 import type { types } from "mediasoup";
-import type { Peer, ProducerInfo } from "../types";
+import type {
+  Peer,
+  PeerManagerEvents,
+  ProducerInfo,
+  ProducerSource,
+  Role,
+} from "../types";
 
-export class PeerManager {
+/**
+ * Keeps the mediasoup objects of a room's peers and reports their lifecycle:
+ * joins, dropped and resumed connections and leaves, closed and paused
+ * producers and closed consumers. Peers are keyed by their session ID, which
+ * outlives a single socket connection.
+ */
+export class PeerManager extends EventEmitter<PeerManagerEvents> {
   private peers = new Map<string, Peer>();
-  private producerAssignments = new Map<string, number>(); // producerId -> transportIndex
+  private producerAssignments = new Map<string, number>(); // producerId -> slot
+  private producerSources = new Map<string, ProducerSource>(); // producerId -> source
+  private removalTimers = new Map<string, NodeJS.Timeout>(); // peerId -> grace period
 
-  public addPeer(socketId: string): void {
-    this.peers.set(socketId, {
+  /**
+   * Adds a peer and returns the token its client resumes the session with.
+   */
+  public addPeer(
+    peerId: string,
+    socketId: string,
+    name: string,
+    role: Role,
+    userId: string
+  ): string {
+    const resumeToken = randomBytes(32).toString("base64url");
+
+    this.peers.set(peerId, {
+      name,
+      role,
+      userId,
+      resumeToken,
+      socketId,
+      mutedKinds: new Set(),
       transports: new Map(),
       producers: new Map(),
       consumers: new Map(),
     });
-    console.info("Peer added:", socketId);
+    console.info("Peer added:", peerId);
+    this.emit("peerJoined", { peerId });
+    return resumeToken;
   }
 
-  public removePeer(socketId: string): void {
-    const peer = this.peers.get(socketId);
+  /**
+   * Whether the token resumes the session of the peer, compared in
+   * constant time.
+   */
+  public isResumeToken(peerId: string, token: unknown): boolean {
+    const peer = this.getPeer(peerId);
+    if (!peer || typeof token !== "string") return false;
+
+    const expected = Buffer.from(peer.resumeToken);
+    const actual = Buffer.from(token);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  public removePeer(peerId: string): void {
+    this.clearRemovalTimer(peerId);
+
+    const peer = this.peers.get(peerId);
     if (peer) {
-      this.cleanupPeerResources(peer);
-      this.peers.delete(socketId);
-      console.info("Peer removed:", socketId);
+      this.cleanupPeerResources(peerId, peer);
+      this.peers.delete(peerId);
+      console.info("Peer removed:", peerId);
+      this.emit("peerLeft", { peerId });
+    }
+  }
+
+  public getPeer(peerId: string): Peer | undefined {
+    return this.peers.get(peerId);
+  }
+
+  /**
+   * Starts the grace period of a peer whose connection dropped. Its
+   * transports, producers and consumers stay until it reconnects or the
+   * period ends, which removes the peer.
+   */
+  public disconnectPeer(peerId: string, gracePeriod: number): void {
+    const peer = this.getPeer(peerId);
+    if (!peer || peer.socketId === null) return;
+
+    peer.socketId = null;
+    this.removalTimers.set(
+      peerId,
+      setTimeout(() => {
+        this.removalTimers.delete(peerId);
+        console.info("Reconnection grace period ended:", peerId);
+        this.removePeer(peerId);
+      }, gracePeriod)
+    );
+
+    console.info("Peer disconnected:", peerId);
+    this.emit("peerDisconnected", { peerId });
+  }
+
+  /**
+   * Attaches a new connection to an existing peer and ends its grace
+   * period. Throws if the peer was already removed.
+   */
+  public reconnectPeer(peerId: string, socketId: string): void {
+    const peer = this.getPeer(peerId);
+    if (!peer) {
+      throw new Error(`Peer ${peerId} not found`);
     }
+
+    this.clearRemovalTimer(peerId);
+    peer.socketId = socketId;
+
+    console.info("Peer reconnected:", peerId);
+    this.emit("peerReconnected", { peerId });
   }
 
-  public getPeer(socketId: string): Peer | undefined {
-    return this.peers.get(socketId);
+  /**
+   * Closes the transports, producers and consumers of a peer but keeps the
+   * peer, e.g. when a reloaded page resumes its session without them.
+   */
+  public closePeerMedia(peerId: string): void {
+    const peer = this.getPeer(peerId);
+    if (peer) {
+      this.cleanupPeerResources(peerId, peer);
+    }
   }
 
-  public addTransport(socketId: string, transport: types.WebRtcTransport): void {
-    const peer = this.getPeer(socketId);
+  public addTransport(peerId: string, transport: types.WebRtcTransport): void {
+    const peer = this.getPeer(peerId);
     if (peer) {
       peer.transports.set(transport.id, transport);
-      this.setupTransportEventHandlers(transport, socketId);
+      this.setupTransportEventHandlers(transport, peerId);
     }
   }
 
-  public getTransport(socketId: string, transportId: string): types.WebRtcTransport | undefined {
-    const peer = this.getPeer(socketId);
+  public getTransport(peerId: string, transportId: string): types.WebRtcTransport | undefined {
+    const peer = this.getPeer(peerId);
     return peer?.transports.get(transportId);
   }
 
-  public addProducer(socketId: string, producer: types.Producer): void {
-    const peer = this.getPeer(socketId);
+  public addProducer(
+    peerId: string,
+    producer: types.Producer,
+    source: ProducerSource
+  ): void {
+    const peer = this.getPeer(peerId);
     if (peer) {
       peer.producers.set(producer.id, producer);
-      this.setupProducerEventHandlers(producer, socketId);
+      this.producerSources.set(producer.id, source);
+      this.setupProducerEventHandlers(producer, peerId);
     }
   }
 
+  /**
+   * Closes a producer of the given peer, e.g. an ended screen share. Throws
+   * if the peer has no such producer.
+   */
+  public removeProducer(peerId: string, producerId: string): void {
+    const producer = this.getPeer(peerId)?.producers.get(producerId);
+    if (!producer) {
+      throw new Error(`Producer ${producerId} not found`);
+    }
+
+    this.closeProducer(peerId, producer);
+  }
+
+  public getProducerSource(producerId: string): ProducerSource | undefined {
+    return this.producerSources.get(producerId);
+  }
+
+  /**
+   * Whether the peer already shares a screen; a peer can share one at a time.
+   */
+  public isSharingScreen(peerId: string): boolean {
+    const peer = this.getPeer(peerId);
+    if (!peer) return false;
+
+    return [...peer.producers.values()].some(
+      (producer) =>
+        producer.kind === "video" &&
+        this.producerSources.get(producer.id) === "screen"
+    );
+  }
+
   public getProducer(producerId: string): types.Producer | undefined {
     for (const peer of this.peers.values()) {
       const producer = peer.producers.get(producerId);
@@ -56,26 +194,39 @@ export class PeerManager {
     return undefined;
   }
 
-  public addConsumer(socketId: string, consumer: types.Consumer): void {
-    const peer = this.getPeer(socketId);
+  // ID of the peer that publishes the producer
+  public getProducerPeerId(producerId: string): string | undefined {
+    for (const [peerId, peer] of this.peers) {
+      if (peer.producers.has(producerId)) return peerId;
+    }
+    return undefined;
+  }
+
+  public addConsumer(peerId: string, consumer: types.Consumer): void {
+    const peer = this.getPeer(peerId);
     if (peer) {
       peer.consumers.set(consumer.id, consumer);
-      this.setupConsumerEventHandlers(consumer, socketId);
+      this.setupConsumerEventHandlers(consumer, peerId);
     }
   }
 
-  public getConsumer(socketId: string, consumerId: string): types.Consumer | undefined {
-    const peer = this.getPeer(socketId);
+  public getConsumer(peerId: string, consumerId: string): types.Consumer | undefined {
+    const peer = this.getPeer(peerId);
     return peer?.consumers.get(consumerId);
   }
 
-  public getExistingProducers(excludeSocketId?: string): ProducerInfo[] {
+  public getExistingProducers(excludePeerId?: string): ProducerInfo[] {
     const producers: ProducerInfo[] = [];
     
-    for (const [socketId, peer] of this.peers.entries()) {
-      if (socketId !== excludeSocketId) {
-        for (const [producerId] of peer.producers) {
-          producers.push({ producerId, socketId });
+    for (const [peerId, peer] of this.peers.entries()) {
+      if (peerId !== excludePeerId) {
+        for (const [producerId, producer] of peer.producers) {
+          producers.push({
+            producerId,
+            peerId,
+            name: peer.name,
+            source: this.getSource(producer),
+          });
         }
       }
     }
@@ -83,20 +234,40 @@ export class PeerManager {
     return producers;
   }
 
-  public getProducerTransportIndex(socketId: string): number {
-    const peerIds = Array.from(this.peers.keys());
-    const peerIndex = peerIds.indexOf(socketId);
-    
-    if (peerIndex === -1 || peerIndex > 1) {
-      console.error(`Invalid peer index ${peerIndex} for peer ${socketId}`);
-      return -1;
+  /**
+   * Pauses or resumes a producer of the given peer on the server, so that
+   * consumers and the composite stop receiving it. Throws if the peer has no
+   * such producer.
+   */
+  public async setProducerPaused(
+    peerId: string,
+    producerId: string,
+    paused: boolean
+  ): Promise<void> {
+    const producer = this.getPeer(peerId)?.producers.get(producerId);
+    if (!producer) {
+      throw new Error(`Producer ${producerId} not found`);
+    }
+
+    if (paused) {
+      await producer.pause();
+    } else {
+      await producer.resume();
     }
-    
-    return peerIndex;
   }
 
-  public setProducerAssignment(producerId: string, transportIndex: number): void {
-    this.producerAssignments.set(producerId, transportIndex);
+  /**
+   * Assigns the lowest free composite slot to a producer, so that tiles of
+   * earlier publishers keep their position.
+   */
+  public assignProducerSlot(producerId: string): number {
+    const usedSlots = new Set(this.producerAssignments.values());
+
+    let slot = 0;
+    while (usedSlots.has(slot)) slot++;
+
+    this.producerAssignments.set(producerId, slot);
+    return slot;
   }
 
   public getProducerAssignment(producerId: string): number | undefined {
@@ -107,6 +278,15 @@ export class PeerManager {
     this.producerAssignments.delete(producerId);
   }
 
+  /**
+   * Number of peers with at least one producer, hosts not counted.
+   */
+  public getPublisherCount(): number {
+    return [...this.peers.values()].filter(
+      (peer) => peer.role !== "host" && peer.producers.size > 0
+    ).length;
+  }
+
   public getAllPeerIds(): string[] {
     return Array.from(this.peers.keys());
   }
@@ -115,8 +295,23 @@ export class PeerManager {
     return this.peers.size;
   }
 
-  private cleanupPeerResources(peer: Peer): void {
-    // Close all transports
+  private clearRemovalTimer(peerId: string): void {
+    const timer = this.removalTimers.get(peerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.removalTimers.delete(peerId);
+    }
+  }
+
+  private getSource(producer: types.Producer): ProducerSource {
+    return (
+      this.producerSources.get(producer.id) ??
+      (producer.kind === "video" ? "camera" : "microphone")
+    );
+  }
+
+  private cleanupPeerResources(peerId: string, peer: Peer): void {
+    // Close all transports, which also closes their producers and consumers
     peer.transports.forEach((transport) => {
       try {
         transport.close();
@@ -125,20 +320,18 @@ export class PeerManager {
       }
     });
 
-    // Close all producers and remove assignments
+    // Close producers and consumers that are left
     peer.producers.forEach((producer) => {
       try {
-        this.removeProducerAssignment(producer.id);
-        producer.close();
+        this.closeProducer(peerId, producer);
       } catch (error) {
         console.error("Error closing producer:", error);
       }
     });
 
-    // Close all consumers
     peer.consumers.forEach((consumer) => {
       try {
-        consumer.close();
+        this.closeConsumer(peerId, consumer);
       } catch (error) {
         console.error("Error closing consumer:", error);
       }
@@ -150,44 +343,119 @@ export class PeerManager {
     peer.consumers.clear();
   }
 
-  private setupTransportEventHandlers(transport: types.WebRtcTransport, socketId: string): void {
-    transport.on("dtlsstatechange", (dtlsState: string) => {
+  /**
+   * Closes a producer, forgets it and reports it once, whichever of the
+   * peer cleanup and the transport closing gets to it first.
+   */
+  private closeProducer(peerId: string, producer: types.Producer): void {
+    const peer = this.getPeer(peerId);
+    if (!peer?.producers.delete(producer.id)) return;
+
+    const source = this.getSource(producer);
+    this.producerSources.delete(producer.id);
+    this.removeProducerAssignment(producer.id);
+    producer.close();
+    this.emit("producerClosed", {
+      producerId: producer.id,
+      peerId,
+      kind: producer.kind,
+      source,
+    });
+  }
+
+  private closeConsumer(peerId: string, consumer: types.Consumer): void {
+    const peer = this.getPeer(peerId);
+    if (!peer?.consumers.delete(consumer.id)) return;
+
+    consumer.close();
+    this.emit("consumerClosed", {
+      consumerId: consumer.id,
+      producerId: consumer.producerId,
+      peerId,
+    });
+  }
+
+  /**
+   * Reports every ICE, DTLS and SCTP state change of a transport. A peer
+   * whose ICE connection dropped can restart ICE; a closed DTLS connection
+   * closes the transport.
+   */
+  private setupTransportEventHandlers(transport: types.WebRtcTransport, peerId: string): void {
+    const emitState = () => {
+      this.emit("transportStateChanged", {
+        transportId: transport.id,
+        peerId,
+        iceState: transport.iceState,
+        dtlsState: transport.dtlsState,
+        sctpState: transport.sctpState ?? null,
+      });
+    };
+
+    transport.on("icestatechange", (iceState) => {
+      if (iceState === "disconnected") {
+        console.warn(`ICE disconnected on transport ${transport.id} of peer ${peerId}`);
+      }
+      emitState();
+    });
+
+    transport.on("dtlsstatechange", (dtlsState) => {
+      if (dtlsState === "failed") {
+        console.error(`DTLS failed on transport ${transport.id} of peer ${peerId}`);
+      }
+      emitState();
+
       if (dtlsState === "closed") {
         transport.close();
-        const peer = this.getPeer(socketId);
+        const peer = this.getPeer(peerId);
         if (peer) {
           peer.transports.delete(transport.id);
         }
       }
     });
+
+    transport.on("sctpstatechange", () => {
+      emitState();
+    });
   }
 
-  private setupProducerEventHandlers(producer: types.Producer, socketId: string): void {
+  private setupProducerEventHandlers(producer: types.Producer, peerId: string): void {
     producer.on("transportclose", () => {
-      producer.close();
-      const peer = this.getPeer(socketId);
-      if (peer) {
-        peer.producers.delete(producer.id);
-        this.removeProducerAssignment(producer.id);
-      }
+      this.closeProducer(peerId, producer);
+    });
+
+    const producerEvent = () => ({
+      producerId: producer.id,
+      peerId,
+      kind: producer.kind,
+      source: this.getSource(producer),
+    });
+
+    producer.observer.on("pause", () => {
+      this.emit("producerPaused", producerEvent());
+    });
+
+    producer.observer.on("resume", () => {
+      this.emit("producerResumed", producerEvent());
     });
   }
 
-  private setupConsumerEventHandlers(consumer: types.Consumer, socketId: string): void {
+  private setupConsumerEventHandlers(consumer: types.Consumer, peerId: string): void {
     consumer.on("transportclose", () => {
-      consumer.close();
-      const peer = this.getPeer(socketId);
-      if (peer) {
-        peer.consumers.delete(consumer.id);
-      }
+      this.closeConsumer(peerId, consumer);
     });
 
     consumer.on("producerclose", () => {
-      consumer.close();
-      const peer = this.getPeer(socketId);
-      if (peer) {
-        peer.consumers.delete(consumer.id);
-      }
+      this.closeConsumer(peerId, consumer);
+    });
+
+    consumer.on("layerschange", (layers) => {
+      this.emit("consumerLayersChanged", {
+        consumerId: consumer.id,
+        producerId: consumer.producerId,
+        peerId,
+        spatialLayer: layers?.spatialLayer ?? null,
+        temporalLayer: layers?.temporalLayer ?? null,
+      });
     });
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+import dgram from "dgram";
+import { config } from "../config";
+import type { RtpPortPair } from "../types";
+
+export class PortAllocator {
+  private usedPorts = new Set<number>(); // RTP ports handed out
+  private readonly minPort: number;
+  private readonly maxPort: number;
+  private nextPort: number;
+
+  /**
+   * @param minPort - First port of the range, rounded up to an even port
+   * @param maxPort - Last port of the range
+   */
+  constructor(
+    minPort: number = config.rtpPlayer.minPort,
+    maxPort: number = config.rtpPlayer.maxPort
+  ) {
+    this.minPort = minPort + (minPort % 2);
+    this.maxPort = maxPort;
+    this.nextPort = this.minPort;
+  }
+
+  /**
+   * Hands out an even RTP port and the following RTCP port. Both ports are
+   * probed first, so ports bound by other processes, such as a second server
+   * on the same host, are skipped. The search continues after the last
+   * allocated pair, which keeps ports that were just released (and may still
+   * be held by an exiting FFmpeg) out of use for as long as possible.
+   */
+  public async allocate(): Promise<RtpPortPair> {
+    const pairCount = Math.floor((this.maxPort - this.minPort + 1) / 2);
+
+    for (let attempt = 0; attempt < pairCount; attempt++) {
+      const rtpPort = this.nextPort;
+      const followingPort = rtpPort + 2;
+      this.nextPort =
+        followingPort + 1 <= this.maxPort ? followingPort : this.minPort;
+
+      if (this.usedPorts.has(rtpPort)) continue;
+
+      // Reserve before probing so that concurrent allocations skip the pair
+      this.usedPorts.add(rtpPort);
+
+      if (await this.isPairFree(rtpPort)) {
+        return { rtpPort, rtcpPort: rtpPort + 1 };
+      }
+
+      this.usedPorts.delete(rtpPort);
+    }
+
+    throw new Error(
+      `No free RTP port pair in range ${this.minPort}-${this.maxPort}`
+    );
+  }
+
+  public release(ports: RtpPortPair): void {
+    this.usedPorts.delete(ports.rtpPort);
+  }
+
+  public getUsedCount(): number {
+    return this.usedPorts.size;
+  }
+
+  private async isPairFree(rtpPort: number): Promise<boolean> {
+    const [rtpFree, rtcpFree] = await Promise.all([
+      this.isPortFree(rtpPort),
+      this.isPortFree(rtpPort + 1),
+    ]);
+    return rtpFree && rtcpFree;
+  }
+
+  private isPortFree(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = dgram.createSocket("udp4");
+
+      socket.once("error", () => {
+        socket.close();
+        resolve(false);
+      });
+
+      socket.bind(port, config.rtpPlayer.listenIp, () => {
+        socket.close(() => resolve(true));
+      });
+    });
+  }
+}
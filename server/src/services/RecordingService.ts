@@ -0,0 +1,434 @@
+import { spawn, ChildProcess } from "child_process";
+import { once } from "events";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import path from "path";
+import type { types } from "mediasoup";
+import { config } from "../config";
+import { FFMPEG, RECORDING } from "../config/constants";
+import type { RecordingMetadata, RecordingType, RtpPortPair } from "../types";
+import { buildSdp } from "../utils/sdp";
+import type { PortAllocator } from "./PortAllocator";
+import type { Room } from "./Room";
+
+interface ActiveRecording {
+  metadata: RecordingMetadata;
+  process: ChildProcess;
+  // Set for producer recordings, which receive their own RTP stream
+  consumer?: types.Consumer;
+  ports?: RtpPortPair;
+  sdpPath?: string;
+}
+
+interface RoomRecordingSession {
+  roomId: string;
+  recordProducers: boolean;
+  recordingIds: Set<string>;
+}
+
+export class RecordingService {
+  private readonly directory: string;
+  private recordings = new Map<string, ActiveRecording>(); // recordingId -> recording
+  private sessions = new Map<string, RoomRecordingSession>(); // roomId -> session
+
+  constructor(private readonly portAllocator: PortAllocator) {
+    this.directory = config.recording.directory;
+  }
+
+  public isRecording(roomId: string): boolean {
+    return this.sessions.has(roomId);
+  }
+
+  /**
+   * Starts recording a room's composite to MP4 and, with `recordProducers`,
+   * every producer of the room to its own WebM file. Producers published
+   * later are recorded as soon as they appear.
+   */
+  public async startRoomRecording(
+    room: Room,
+    recordProducers: boolean = false
+  ): Promise<RecordingMetadata[]> {
+    if (this.sessions.has(room.id)) {
+      throw new Error(`Room ${room.id} is already being recorded`);
+    }
+
+    if (!room.ffmpegService.isRunning()) {
+      throw new Error(`Room ${room.id} has no composite to record`);
+    }
+
+    const session: RoomRecordingSession = {
+      roomId: room.id,
+      recordProducers,
+      recordingIds: new Set(),
+    };
+    this.sessions.set(room.id, session);
+
+    try {
+      const started = [this.startCompositeRecording(room, session)];
+
+      if (recordProducers) {
+        for (const { producerId, peerId } of room.peerManager.getExistingProducers()) {
+          const producer = room.peerManager.getProducer(producerId);
+          if (!producer) continue;
+
+          const metadata = await this.startProducerRecording(
+            room,
+            session,
+            producer,
+            peerId
+          );
+          if (metadata) started.push(metadata);
+        }
+      }
+
+      return started;
+    } catch (error) {
+      // Stop what was started, so that the room can be recorded again
+      await this.stopRoomRecording(room.id).catch((stopError) => {
+        console.error(`Failed to stop recordings of room ${room.id}:`, stopError);
+      });
+      throw error;
+    }
+  }
+
+  public async stopRoomRecording(roomId: string): Promise<RecordingMetadata[]> {
+    const session = this.sessions.get(roomId);
+    if (!session) {
+      throw new Error(`Room ${roomId} is not being recorded`);
+    }
+
+    this.sessions.delete(roomId);
+
+    // Producer recordings that ended with their producer are already stopped
+    const activeIds = [...session.recordingIds].filter((recordingId) =>
+      this.recordings.has(recordingId)
+    );
+
+    return await Promise.all(
+      activeIds.map((recordingId) => this.stopRecording(recordingId))
+    );
+  }
+
+  public async stopAll(): Promise<void> {
+    const roomIds = [...this.sessions.keys()];
+    await Promise.all(roomIds.map((roomId) => this.stopRoomRecording(roomId)));
+  }
+
+  public handlePeerJoined(roomId: string, peerId: string): void {
+    const session = this.sessions.get(roomId);
+    if (!session) return;
+
+    for (const recordingId of session.recordingIds) {
+      const recording = this.recordings.get(recordingId);
+      if (recording?.metadata.type === "composite") {
+        this.addParticipant(recording, peerId);
+      }
+    }
+  }
+
+  public async handleNewProducer(
+    room: Room,
+    producer: types.Producer,
+    peerId: string
+  ): Promise<void> {
+    const session = this.sessions.get(room.id);
+    if (!session?.recordProducers) return;
+
+    await this.startProducerRecording(room, session, producer, peerId);
+  }
+
+  /**
+   * Lists finished and running recordings from the metadata files in the
+   * recording directory, newest first.
+   */
+  public listRecordings(): RecordingMetadata[] {
+    if (!existsSync(this.directory)) {
+      return [];
+    }
+
+    return readdirSync(this.directory)
+      .filter((file) => file.endsWith(".json"))
+      .flatMap((file) => {
+        try {
+          const content = readFileSync(path.resolve(this.directory, file), "utf8");
+          return [JSON.parse(content) as RecordingMetadata];
+        } catch (error) {
+          console.error(`Failed to read recording metadata ${file}:`, error);
+          return [];
+        }
+      })
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  /**
+   * Records the highest rendition of the room's HLS output. The segments are
+   * already encoded, so they are copied into a fragmented MP4 that stays
+   * playable even if the recorder is killed.
+   */
+  private startCompositeRecording(
+    room: Room,
+    session: RoomRecordingSession
+  ): RecordingMetadata {
+    const metadata = this.createMetadata(room.id, "composite", "mp4");
+    metadata.participants = room.peerManager.getAllPeerIds();
+
+    const args = [
+      "-live_start_index",
+      "-1",
+      "-i",
+      room.ffmpegService.getVariantPlaylistPath(),
+      "-map",
+      "0",
+      "-c",
+      "copy",
+      "-movflags",
+      "+frag_keyframe+empty_moov+default_base_moof",
+      "-f",
+      "mp4",
+      path.resolve(this.directory, metadata.file),
+    ];
+
+    this.trackRecording(session, { metadata, process: this.spawnFFmpeg(args) });
+    return metadata;
+  }
+
+  /**
+   * Records a single producer without transcoding. It gets its own RTP
+   * consumer and port pair; VP8, VP9, AV1 and Opus are written to WebM as
+   * they are, H.264 to Matroska.
+   */
+  private async startProducerRecording(
+    room: Room,
+    session: RoomRecordingSession,
+    producer: types.Producer,
+    peerId: string
+  ): Promise<RecordingMetadata | null> {
+    const ports = await this.portAllocator.allocate();
+    const consumer = await room.mediasoupService.createRtpConsumer(
+      producer,
+      ports
+    );
+
+    if (!consumer) {
+      this.portAllocator.release(ports);
+      return null;
+    }
+
+    const [codec] = consumer.rtpParameters.codecs;
+    const isH264 = codec?.mimeType.toLowerCase() === "video/h264";
+    const container = isH264 ? "mkv" : "webm";
+
+    const metadata = this.createMetadata(
+      room.id,
+      "producer",
+      container,
+      producer.id
+    );
+    metadata.producerId = producer.id;
+    metadata.peerId = peerId;
+    metadata.kind = producer.kind;
+    metadata.participants = [peerId];
+
+    const sdpPath = path.resolve(this.directory, `${metadata.id}.sdp`);
+    this.ensureDirectory();
+    writeFileSync(
+      sdpPath,
+      buildSdp(
+        [{ kind: producer.kind, ports, rtpParameters: consumer.rtpParameters }],
+        `Recording ${metadata.id}`
+      )
+    );
+
+    const args = [
+      "-protocol_whitelist",
+      "file,udp,rtp",
+      "-fflags",
+      "+genpts",
+      "-i",
+      sdpPath,
+      "-map",
+      "0",
+      "-c",
+      "copy",
+      "-f",
+      isH264 ? "matroska" : "webm",
+      path.resolve(this.directory, metadata.file),
+    ];
+
+    const recording: ActiveRecording = {
+      metadata,
+      process: this.spawnFFmpeg(args),
+      consumer,
+      ports,
+      sdpPath,
+    };
+    this.trackRecording(session, recording);
+
+    // The recording ends with the producer
+    consumer.observer.on("close", () => {
+      if (this.recordings.has(metadata.id)) {
+        this.stopRecording(metadata.id).catch((error) => {
+          console.error(`Failed to stop recording ${metadata.id}:`, error);
+        });
+      }
+    });
+
+    if (producer.kind === "video") {
+      this.requestKeyFrames(consumer);
+    }
+
+    return metadata;
+  }
+
+  private async stopRecording(recordingId: string): Promise<RecordingMetadata> {
+    const recording = this.recordings.get(recordingId);
+    if (!recording) {
+      throw new Error(`Recording ${recordingId} not found`);
+    }
+
+    this.recordings.delete(recordingId);
+    console.info(`Stopping recording ${recordingId}...`);
+
+    // FFmpeg finalizes the file on SIGINT
+    if (recording.process.exitCode === null) {
+      const exited = once(recording.process, "close");
+      recording.process.kill("SIGINT");
+
+      const timeout = setTimeout(
+        () => recording.process.kill("SIGKILL"),
+        RECORDING.STOP_TIMEOUT
+      );
+      await exited;
+      clearTimeout(timeout);
+    }
+
+    this.releaseRtpResources(recording);
+
+    if (recording.metadata.status === "recording") {
+      recording.metadata.status = "completed";
+    }
+    recording.metadata.endedAt = new Date().toISOString();
+    this.writeMetadata(recording.metadata);
+
+    return recording.metadata;
+  }
+
+  private trackRecording(
+    session: RoomRecordingSession,
+    recording: ActiveRecording
+  ): void {
+    const { metadata } = recording;
+
+    this.recordings.set(metadata.id, recording);
+    session.recordingIds.add(metadata.id);
+    this.writeMetadata(metadata);
+    console.info(`Recording ${metadata.id} started: ${metadata.file}`);
+
+    recording.process.stderr?.on("data", (data: Buffer) => {
+      console.log(`Recording ${metadata.id} stderr: ${data.toString()}`);
+    });
+
+    // e.g. FFmpeg is not installed
+    recording.process.on("error", (error: Error) => {
+      console.error(`Recording ${metadata.id} process error:`, error);
+      this.failRecording(recording);
+    });
+
+    recording.process.on("close", (code: number | null) => {
+      // Exits that were not requested through stopRecording
+      if (!this.recordings.has(metadata.id)) return;
+
+      console.error(`Recording ${metadata.id} exited with code ${code}`);
+      this.failRecording(recording);
+    });
+  }
+
+  private failRecording(recording: ActiveRecording): void {
+    const { metadata } = recording;
+
+    // A failed spawn can be followed by "close"
+    if (!this.recordings.has(metadata.id)) return;
+
+    this.recordings.delete(metadata.id);
+    this.releaseRtpResources(recording);
+
+    metadata.status = "failed";
+    metadata.endedAt = new Date().toISOString();
+    this.writeMetadata(metadata);
+  }
+
+  private spawnFFmpeg(args: string[]): ChildProcess {
+    this.ensureDirectory();
+    return spawn("ffmpeg", ["-y", ...args]);
+  }
+
+  private releaseRtpResources(recording: ActiveRecording): void {
+    if (recording.consumer && !recording.consumer.closed) {
+      recording.consumer.close();
+    }
+    if (recording.ports) {
+      this.portAllocator.release(recording.ports);
+      recording.ports = undefined;
+    }
+    if (recording.sdpPath) {
+      rmSync(recording.sdpPath, { force: true });
+    }
+  }
+
+  private requestKeyFrames(consumer: types.Consumer): void {
+    for (const delay of FFMPEG.KEYFRAME_REQUEST_DELAYS) {
+      setTimeout(() => {
+        if (consumer.closed) return;
+
+        consumer.requestKeyFrame().catch((error) => {
+          console.error("Failed to request key frame:", error);
+        });
+      }, delay);
+    }
+  }
+
+  private addParticipant(recording: ActiveRecording, peerId: string): void {
+    const { metadata } = recording;
+
+    if (!metadata.participants.includes(peerId)) {
+      metadata.participants.push(peerId);
+      this.writeMetadata(metadata);
+    }
+  }
+
+  private createMetadata(
+    roomId: string,
+    type: RecordingType,
+    extension: string,
+    producerId?: string
+  ): RecordingMetadata {
+    const startedAt = new Date();
+    const timestamp = startedAt.toISOString().replace(/[:.]/g, "-");
+    const id = [roomId, timestamp, producerId ?? type].join("_");
+
+    return {
+      id,
+      roomId,
+      type,
+      file: `${id}.${extension}`,
+      participants: [],
+      startedAt: startedAt.toISOString(),
+      endedAt: null,
+      status: "recording",
+    };
+  }
+
+  private writeMetadata(metadata: RecordingMetadata): void {
+    this.ensureDirectory();
+    writeFileSync(
+      path.resolve(this.directory, `${metadata.id}.json`),
+      JSON.stringify(metadata, null, 2)
+    );
+  }
+
+  private ensureDirectory(): void {
+    if (!existsSync(this.directory)) {
+      mkdirSync(this.directory, { recursive: true });
+      console.log(`Created recording directory: ${this.directory}`);
+    }
+  }
+}
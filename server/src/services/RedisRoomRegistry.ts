@@ -0,0 +1,77 @@
+import { CLUSTER } from "../config/constants";
+import type { ClusterNode, RoomRegistry } from "../types";
+import { RedisClient } from "../utils/redis";
+
+const NODES_KEY = `${CLUSTER.KEY_PREFIX}nodes`;
+const nodeKey = (nodeId: string) => `${CLUSTER.KEY_PREFIX}node:${nodeId}`;
+const roomKey = (roomId: string) => `${CLUSTER.KEY_PREFIX}room:${roomId}:origin`;
+
+/**
+ * Room registry in a Redis-compatible server shared by all nodes. Nodes and
+ * room claims are keys with an expiry.
+ */
+export class RedisRoomRegistry implements RoomRegistry {
+  private readonly client: RedisClient;
+
+  constructor(url: string) {
+    this.client = new RedisClient(url);
+  }
+
+  public async registerNode(node: ClusterNode, ttlMs: number): Promise<void> {
+    await this.client.command("SET", nodeKey(node.id), JSON.stringify(node), "PX", ttlMs);
+    await this.client.command("SADD", NODES_KEY, node.id);
+  }
+
+  public async removeNode(nodeId: string): Promise<void> {
+    await this.client.command("DEL", nodeKey(nodeId));
+    await this.client.command("SREM", NODES_KEY, nodeId);
+  }
+
+  /**
+   * Live nodes. Expired ones are dropped from the node set on the way.
+   */
+  public async getNodes(): Promise<ClusterNode[]> {
+    const nodeIds = await this.client.command("SMEMBERS", NODES_KEY);
+    if (!Array.isArray(nodeIds) || nodeIds.length === 0) return [];
+
+    const entries = await this.client.command("MGET", ...nodeIds.map(String).map(nodeKey));
+    const nodes: ClusterNode[] = [];
+
+    for (const [index, entry] of (Array.isArray(entries) ? entries : []).entries()) {
+      if (typeof entry === "string") {
+        nodes.push(JSON.parse(entry));
+      } else {
+        await this.client.command("SREM", NODES_KEY, String(nodeIds[index]));
+      }
+    }
+
+    return nodes;
+  }
+
+  public async claimRoom(roomId: string, nodeId: string, ttlMs: number): Promise<string> {
+    const claimed = await this.client.command("SET", roomKey(roomId), nodeId, "NX", "PX", ttlMs);
+    if (claimed === "OK") return nodeId;
+
+    const origin = await this.client.command("GET", roomKey(roomId));
+    if (origin === nodeId) {
+      await this.client.command("PEXPIRE", roomKey(roomId), ttlMs);
+    }
+    // The claim expired in between; claim again
+    return typeof origin === "string" ? origin : this.claimRoom(roomId, nodeId, ttlMs);
+  }
+
+  public async getRoomOrigin(roomId: string): Promise<string | null> {
+    const origin = await this.client.command("GET", roomKey(roomId));
+    return typeof origin === "string" ? origin : null;
+  }
+
+  public async releaseRoom(roomId: string, nodeId: string): Promise<void> {
+    if ((await this.getRoomOrigin(roomId)) === nodeId) {
+      await this.client.command("DEL", roomKey(roomId));
+    }
+  }
+
+  public close(): void {
+    this.client.close();
+  }
+}
@@ -0,0 +1,298 @@
+import { spawn, ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import { once } from "events";
+import { RESTREAM } from "../config/constants";
+import type { RestreamDestination, RestreamProtocol } from "../types";
+import type { Room } from "./Room";
+
+interface ActiveDestination {
+  info: RestreamDestination;
+  // Unmasked destination URL
+  targetUrl: string;
+  inputPath: string;
+  process: ChildProcess | null;
+  retryTimer: NodeJS.Timeout | null;
+}
+
+const PROTOCOLS: Record<string, RestreamProtocol> = {
+  "rtmp:": "rtmp",
+  "rtmps:": "rtmp",
+  "srt:": "srt",
+};
+
+const OUTPUT_FORMATS: Record<RestreamProtocol, string[]> = {
+  rtmp: ["-f", "flv", "-flvflags", "no_duration_filesize"],
+  srt: ["-f", "mpegts"],
+};
+
+const PROGRESS_PATTERN = /time=\d+:\d+:\d+/;
+
+/**
+ * Pushes the composite of a room to RTMP(S) and SRT ingest endpoints. Every
+ * destination runs its own FFmpeg, which copies the highest HLS rendition
+ * without transcoding, and is restarted with an exponential backoff when it
+ * fails.
+ */
+export class RestreamService {
+  private destinations = new Map<string, ActiveDestination>(); // destinationId -> destination
+
+  public listDestinations(roomId: string): RestreamDestination[] {
+    return [...this.destinations.values()]
+      .filter((destination) => destination.info.roomId === roomId)
+      .map((destination) => destination.info);
+  }
+
+  public getDestination(
+    roomId: string,
+    destinationId: string
+  ): RestreamDestination | undefined {
+    const destination = this.destinations.get(destinationId);
+    return destination?.info.roomId === roomId ? destination.info : undefined;
+  }
+
+  /**
+   * Adds a destination to the room and starts pushing to it.
+   * Throws for unsupported URLs and rooms without a composite.
+   */
+  public addDestination(room: Room, url: string): RestreamDestination {
+    let parsedUrl: URL;
+    try {
+      parsedUrl = new URL(url);
+    } catch {
+      throw new Error(`Invalid destination URL: ${url}`);
+    }
+
+    const protocol = PROTOCOLS[parsedUrl.protocol];
+    if (!protocol) {
+      throw new Error(
+        `Unsupported protocol ${parsedUrl.protocol}, use rtmp, rtmps or srt`
+      );
+    }
+
+    if (!room.ffmpegService.isRunning()) {
+      throw new Error(`Room ${room.id} has no composite to restream`);
+    }
+
+    const destination: ActiveDestination = {
+      info: {
+        id: randomUUID(),
+        roomId: room.id,
+        protocol,
+        url: maskUrl(parsedUrl, protocol),
+        status: "stopped",
+        retries: 0,
+        lastError: null,
+        startedAt: null,
+      },
+      targetUrl: url,
+      inputPath: room.ffmpegService.getVariantPlaylistPath(),
+      process: null,
+      retryTimer: null,
+    };
+
+    this.destinations.set(destination.info.id, destination);
+    this.startDestination(room.id, destination.info.id);
+
+    return destination.info;
+  }
+
+  /**
+   * (Re)starts a stopped or failed destination.
+   */
+  public startDestination(
+    roomId: string,
+    destinationId: string
+  ): RestreamDestination {
+    const destination = this.findDestination(roomId, destinationId);
+
+    if (destination.process || destination.retryTimer) {
+      throw new Error(`Destination ${destinationId} is already running`);
+    }
+
+    destination.info.retries = 0;
+    destination.info.lastError = null;
+    this.spawnFFmpeg(destination);
+
+    return destination.info;
+  }
+
+  public async stopDestination(
+    roomId: string,
+    destinationId: string
+  ): Promise<RestreamDestination> {
+    const destination = this.findDestination(roomId, destinationId);
+
+    this.clearRetryTimer(destination);
+
+    const ffmpegProcess = destination.process;
+    if (ffmpegProcess) {
+      // Marks the exit as requested for the close handler
+      destination.process = null;
+      console.info(`Stopping restream ${destinationId}...`);
+
+      const exited = once(ffmpegProcess, "close");
+      ffmpegProcess.kill("SIGINT");
+
+      const timeout = setTimeout(
+        () => ffmpegProcess.kill("SIGKILL"),
+        RESTREAM.STOP_TIMEOUT
+      );
+      await exited;
+      clearTimeout(timeout);
+    }
+
+    destination.info.status = "stopped";
+    return destination.info;
+  }
+
+  public async removeDestination(
+    roomId: string,
+    destinationId: string
+  ): Promise<RestreamDestination> {
+    const info = await this.stopDestination(roomId, destinationId);
+    this.destinations.delete(destinationId);
+    return info;
+  }
+
+  public async removeRoomDestinations(roomId: string): Promise<void> {
+    await Promise.all(
+      this.listDestinations(roomId).map(({ id }) =>
+        this.removeDestination(roomId, id)
+      )
+    );
+  }
+
+  public async stopAll(): Promise<void> {
+    await Promise.all(
+      [...this.destinations.values()].map(({ info }) =>
+        this.removeDestination(info.roomId, info.id)
+      )
+    );
+  }
+
+  private findDestination(
+    roomId: string,
+    destinationId: string
+  ): ActiveDestination {
+    const destination = this.destinations.get(destinationId);
+
+    if (!destination || destination.info.roomId !== roomId) {
+      throw new Error(`Destination ${destinationId} not found`);
+    }
+
+    return destination;
+  }
+
+  private spawnFFmpeg(destination: ActiveDestination): void {
+    const { info } = destination;
+    const args = [
+      "-loglevel",
+      "warning",
+      "-stats",
+      "-live_start_index",
+      "-1",
+      "-i",
+      destination.inputPath,
+      "-map",
+      "0",
+      "-c",
+      "copy",
+      ...OUTPUT_FORMATS[info.protocol],
+      destination.targetUrl,
+    ];
+
+    console.info(`Restream ${info.id} starting: ${info.url}`);
+    const ffmpegProcess = spawn("ffmpeg", args);
+    destination.process = ffmpegProcess;
+    info.status = "starting";
+    info.startedAt = new Date().toISOString();
+
+    ffmpegProcess.stderr?.on("data", (data: Buffer) => {
+      const output = data.toString();
+
+      // Progress lines only show that data is flowing
+      if (PROGRESS_PATTERN.test(output)) {
+        if (info.status !== "live" && destination.process === ffmpegProcess) {
+          console.info(`Restream ${info.id} is live`);
+          info.status = "live";
+          info.retries = 0;
+        }
+        return;
+      }
+
+      console.log(`Restream ${info.id} stderr: ${output}`);
+      info.lastError = output.trim().split("\n").pop() ?? null;
+    });
+
+    ffmpegProcess.on("error", (error: Error) => {
+      info.lastError = error.message;
+    });
+
+    ffmpegProcess.on("close", (code: number | null) => {
+      // Exits requested through stopDestination
+      if (destination.process !== ffmpegProcess) return;
+
+      console.error(`Restream ${info.id} exited with code ${code}`);
+      destination.process = null;
+      this.scheduleRetry(destination);
+    });
+  }
+
+  private scheduleRetry(destination: ActiveDestination): void {
+    const { info } = destination;
+
+    if (info.retries >= RESTREAM.MAX_RETRIES) {
+      console.error(`Restream ${info.id} failed after ${info.retries} retries`);
+      info.status = "failed";
+      return;
+    }
+
+    const delay = Math.min(
+      RESTREAM.RETRY_DELAY * 2 ** info.retries,
+      RESTREAM.MAX_RETRY_DELAY
+    );
+    info.retries++;
+    info.status = "retrying";
+    console.info(`Retrying restream ${info.id} in ${delay}ms`);
+
+    destination.retryTimer = setTimeout(() => {
+      destination.retryTimer = null;
+      this.spawnFFmpeg(destination);
+    }, delay);
+  }
+
+  private clearRetryTimer(destination: ActiveDestination): void {
+    if (destination.retryTimer) {
+      clearTimeout(destination.retryTimer);
+      destination.retryTimer = null;
+    }
+  }
+}
+
+/**
+ * Hides credentials: the stream key (last path segment) of RTMP URLs and
+ * the stream ID and passphrase of SRT URLs.
+ */
+function maskUrl(url: URL, protocol: RestreamProtocol): string {
+  const masked = new URL(url.href);
+
+  if (masked.password) {
+    masked.password = "****";
+  }
+
+  if (protocol === "rtmp") {
+    const segments = masked.pathname.split("/");
+    if (segments.length > 2) {
+      segments[segments.length - 1] = "****";
+      masked.pathname = segments.join("/");
+    }
+  }
+
+  for (const param of ["streamid", "passphrase"]) {
+    if (masked.searchParams.has(param)) {
+      masked.searchParams.set(param, "****");
+    }
+  }
+
+  return masked.toString();
+}
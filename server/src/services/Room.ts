@@ -0,0 +1,217 @@
+import type { types } from "mediasoup";
+import { config } from "../config";
+import type {
+  CascadeLink,
+  ProducerInfo,
+  ProducerSource,
+  RemoteProducer,
+  RoomSettings,
+} from "../types";
+import { FFmpegService } from "./FFmpegService";
+import { LowLatencyHlsService } from "./LowLatencyHlsService";
+import { MediasoupService } from "./MediasoupService";
+import { PeerManager } from "./PeerManager";
+import type { PortAllocator } from "./PortAllocator";
+import type { WorkerService } from "./WorkerService";
+
+export class Room {
+  public readonly mediasoupService: MediasoupService;
+  public readonly peerManager: PeerManager;
+  public readonly ffmpegService: FFmpegService;
+  // Set when the room's HLS output is served as Low-Latency HLS
+  public readonly lowLatencyHls: LowLatencyHlsService | null;
+  // Links to the nodes the room is cascaded to, and the producers of
+  // their peers
+  public readonly cascadeLinks = new Map<string, CascadeLink>(); // nodeId -> link
+  public readonly remoteProducers = new Map<string, RemoteProducer>(); // producerId -> producer
+  private settings: RoomSettings = { locked: false, publisherLimit: null };
+  // Only the origin, the node the room was created on first, sends the
+  // room to FFmpeg; other nodes cascade from it
+  private origin = true;
+
+  /**
+   * @param id - Room ID chosen by the clients
+   * @param portAllocator - Source of the RTP ports the room's producers are
+   * sent to FFmpeg on
+   */
+  constructor(
+    public readonly id: string,
+    workerService: WorkerService,
+    private readonly portAllocator: PortAllocator
+  ) {
+    this.mediasoupService = new MediasoupService(workerService);
+    this.peerManager = new PeerManager();
+    this.ffmpegService = new FFmpegService(id);
+    this.lowLatencyHls = config.hls.lowLatency
+      ? new LowLatencyHlsService(this.ffmpegService.getOutputDir())
+      : null;
+
+    this.peerManager.on("producerPaused", ({ producerId }) => {
+      this.ffmpegService.setInputPaused(producerId, true);
+    });
+    this.peerManager.on("producerResumed", ({ producerId }) => {
+      this.ffmpegService.setInputPaused(producerId, false);
+    });
+  }
+
+  public async initialize(): Promise<void> {
+    await this.mediasoupService.initialize();
+    this.lowLatencyHls?.start();
+    console.info(`Room ${this.id} created`);
+  }
+
+  /**
+   * Whether the room may close: no peers, and as the origin no other
+   * nodes cascading from it.
+   */
+  public isEmpty(): boolean {
+    return (
+      this.peerManager.getPeerCount() === 0 &&
+      (!this.origin || this.cascadeLinks.size === 0)
+    );
+  }
+
+  public isOrigin(): boolean {
+    return this.origin;
+  }
+
+  public setOrigin(origin: boolean): void {
+    this.origin = origin;
+  }
+
+  /**
+   * Producers of local and remote peers, except those of `excludePeerId`.
+   */
+  public getExistingProducers(excludePeerId?: string): ProducerInfo[] {
+    const remoteProducers = [...this.remoteProducers.values()]
+      .filter(({ peerId }) => peerId !== excludePeerId)
+      .map(({ producer, peerId, name, source }) => ({
+        producerId: producer.id,
+        peerId,
+        name,
+        source,
+      }));
+
+    return [
+      ...this.peerManager.getExistingProducers(excludePeerId),
+      ...remoteProducers,
+    ];
+  }
+
+  /**
+   * Adds a producer piped from another node, which stays until it closes.
+   * The origin sends it to FFmpeg like a local one.
+   */
+  public async addRemoteProducer(remote: RemoteProducer): Promise<void> {
+    const { producer } = remote;
+
+    this.remoteProducers.set(producer.id, remote);
+    producer.observer.once("close", () => {
+      this.remoteProducers.delete(producer.id);
+    });
+    producer.observer.on("pause", () => {
+      this.ffmpegService.setInputPaused(producer.id, true);
+    });
+    producer.observer.on("resume", () => {
+      this.ffmpegService.setInputPaused(producer.id, false);
+    });
+
+    await this.createRtpConsumerForProducer(
+      producer,
+      remote.peerId,
+      remote.source,
+      remote.name
+    );
+  }
+
+  public getSettings(): RoomSettings {
+    return { ...this.settings };
+  }
+
+  public setLocked(locked: boolean): void {
+    this.settings.locked = locked;
+  }
+
+  /**
+   * Limits the peers that may publish. Peers that already publish keep
+   * doing so when the limit is lowered.
+   */
+  public setPublisherLimit(limit: number | null): void {
+    if (limit !== null && !(Number.isInteger(limit) && limit >= 0)) {
+      throw new Error(`Invalid publisher limit ${limit}`);
+    }
+    this.settings.publisherLimit = limit;
+  }
+
+  /**
+   * Whether a peer may add a producer: hosts and peers that already publish
+   * always may, others while the publisher limit is not reached.
+   */
+  public canPublish(peerId: string): boolean {
+    const peer = this.peerManager.getPeer(peerId);
+    const { publisherLimit } = this.settings;
+
+    if (!peer) return false;
+    if (peer.role === "host" || peer.producers.size > 0) return true;
+
+    return (
+      publisherLimit === null ||
+      this.peerManager.getPublisherCount() < publisherLimit
+    );
+  }
+
+  /**
+   * Sends a producer to the room's FFmpeg composite, on the origin only. The
+   * producer leaves the composite and its ports are freed again when its RTP
+   * consumer closes. Throws when no RTP port pair is left.
+   */
+  public async createRtpConsumerForProducer(
+    producer: types.Producer,
+    peerId: string,
+    source: ProducerSource,
+    name: string = this.peerManager.getPeer(peerId)?.name ?? peerId
+  ): Promise<void> {
+    if (!this.origin) return;
+
+    const ports = await this.portAllocator.allocate();
+    const consumer = await this.mediasoupService.createRtpConsumer(
+      producer,
+      ports
+    );
+
+    if (!consumer) {
+      this.portAllocator.release(ports);
+      return;
+    }
+
+    const slot = this.peerManager.assignProducerSlot(producer.id);
+
+    consumer.observer.on("close", () => {
+      this.ffmpegService.removeInput(producer.id);
+      this.peerManager.removeProducerAssignment(producer.id);
+      this.portAllocator.release(ports);
+    });
+
+    this.ffmpegService.addInput({
+      producerId: producer.id,
+      peerId,
+      kind: producer.kind,
+      consumer,
+      ports,
+      slot,
+      name,
+      paused: producer.paused,
+      source,
+    });
+  }
+
+  public async close(): Promise<void> {
+    const peerIds = this.peerManager.getAllPeerIds();
+    peerIds.forEach((peerId) => this.peerManager.removePeer(peerId));
+
+    await this.mediasoupService.cleanup();
+    this.ffmpegService.stop();
+    this.lowLatencyHls?.stop();
+    console.info(`Room ${this.id} closed`);
+  }
+}
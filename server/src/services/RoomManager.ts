@@ -0,0 +1,133 @@
+import { EventEmitter } from "events";
+import type { CascadeService } from "./CascadeService";
+import type { PortAllocator } from "./PortAllocator";
+import { Room } from "./Room";
+import type { WorkerService } from "./WorkerService";
+
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+interface RoomManagerEvents {
+  roomCreated: [room: Room];
+  // Closed because it lost a router; its clients may join again
+  roomFailed: [room: Room, reason: string];
+}
+
+export class RoomManager extends EventEmitter<RoomManagerEvents> {
+  private rooms = new Map<string, Room>();
+  private pendingRooms = new Map<string, Promise<Room>>();
+
+  constructor(
+    private readonly workerService: WorkerService,
+    private readonly portAllocator: PortAllocator,
+    private readonly cascadeService: CascadeService
+  ) {
+    super();
+
+    this.workerService.on("workerDied", (worker) => {
+      this.closeRoomsOfDeadWorker(worker.pid);
+    });
+  }
+
+  public static isValidRoomId(roomId: string): boolean {
+    return ROOM_ID_PATTERN.test(roomId);
+  }
+
+  /**
+   * Returns the room with the given ID, creating it on first join.
+   * Concurrent joins of a room that is still being created share one
+   * creation.
+   */
+  public async getOrCreateRoom(roomId: string): Promise<Room> {
+    const existingRoom = this.rooms.get(roomId);
+    if (existingRoom) return existingRoom;
+
+    const pendingRoom = this.pendingRooms.get(roomId);
+    if (pendingRoom) return pendingRoom;
+
+    const creation = this.createRoom(roomId).finally(() => {
+      this.pendingRooms.delete(roomId);
+    });
+    this.pendingRooms.set(roomId, creation);
+
+    return creation;
+  }
+
+  public getRoom(roomId: string): Room | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  public getAllRoomIds(): string[] {
+    return Array.from(this.rooms.keys());
+  }
+
+  // Peers of all rooms, reported as the node's load
+  public getPeerCount(): number {
+    let count = 0;
+    this.rooms.forEach((room) => {
+      count += room.peerManager.getPeerCount();
+    });
+    return count;
+  }
+
+  public async closeRoom(roomId: string): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    this.rooms.delete(roomId);
+    await this.cascadeService.detachRoom(room);
+    await room.close();
+  }
+
+  public async closeRoomIfEmpty(roomId: string): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (room?.isEmpty()) {
+      await this.closeRoom(roomId);
+    }
+  }
+
+  public async closeAll(): Promise<void> {
+    const roomIds = this.getAllRoomIds();
+    await Promise.all(roomIds.map((roomId) => this.closeRoom(roomId)));
+  }
+
+  /**
+   * Closes the rooms that had a router on a worker that died. Other rooms
+   * keep running; closed ones are created again on the remaining workers
+   * when their clients join again.
+   */
+  private closeRoomsOfDeadWorker(pid: number): void {
+    for (const room of this.rooms.values()) {
+      if (!room.mediasoupService.hasClosedRouter()) continue;
+
+      const reason = `Media worker ${pid} died`;
+      console.error(`Closing room ${room.id}: ${reason}`);
+      this.closeRoom(room.id)
+        .then(() => this.emit("roomFailed", room, reason))
+        .catch((error) => {
+          console.error(`Failed to close room ${room.id}:`, error);
+        });
+    }
+  }
+
+  private async createRoom(roomId: string): Promise<Room> {
+    if (!RoomManager.isValidRoomId(roomId)) {
+      throw new Error(`Invalid room ID: ${roomId}`);
+    }
+
+    const room = new Room(roomId, this.workerService, this.portAllocator);
+
+    try {
+      await room.initialize();
+      // Links the room to its origin if another node created it first
+      await this.cascadeService.attachRoom(room);
+    } catch (error) {
+      await this.cascadeService.detachRoom(room);
+      await room.close();
+      throw error;
+    }
+
+    this.rooms.set(roomId, room);
+    this.emit("roomCreated", room);
+    return room;
+  }
+}
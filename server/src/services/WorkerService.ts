@@ -0,0 +1,137 @@
+import { EventEmitter } from "events";
+import * as mediasoup from "mediasoup";
+import type { types } from "mediasoup";
+import { config } from "../config";
+
+interface PooledWorker {
+  worker: types.Worker;
+  // Producers and consumers on the worker's routers
+  load: number;
+}
+
+interface WorkerServiceEvents {
+  // Every router of the worker is closed; a new worker already replaces it
+  workerDied: [worker: types.Worker];
+}
+
+/**
+ * Runs a pool of mediasoup workers, one per CPU core by default, and creates
+ * routers on the least loaded one. A worker that dies is replaced.
+ */
+export class WorkerService extends EventEmitter<WorkerServiceEvents> {
+  private workers: PooledWorker[] = [];
+  private routerWorkers = new Map<string, types.Worker>(); // routerId -> worker
+  private mediaCodecs: types.RtpCodecCapability[] = [];
+  private closing = false;
+
+  public async initialize(): Promise<void> {
+    this.mediaCodecs = this.getSupportedMediaCodecs();
+
+    for (let i = 0; i < config.mediasoup.numWorkers; i++) {
+      await this.createWorker();
+    }
+  }
+
+  public getWorkers(): types.Worker[] {
+    return this.workers.map(({ worker }) => worker);
+  }
+
+  /**
+   * Creates a router on the least loaded worker. Workers listed in
+   * `exclude` are only used if there is no other.
+   */
+  public async createRouter(
+    exclude: types.Worker[] = []
+  ): Promise<types.Router> {
+    const worker = this.getLeastLoadedWorker(exclude);
+    const router = await worker.createRouter({ mediaCodecs: this.mediaCodecs });
+
+    this.routerWorkers.set(router.id, worker);
+    router.observer.once("close", () => this.routerWorkers.delete(router.id));
+
+    return router;
+  }
+
+  public getRouterWorker(router: types.Router): types.Worker | undefined {
+    return this.routerWorkers.get(router.id);
+  }
+
+  /**
+   * Leaves out configured codecs this mediasoup version cannot route.
+   */
+  private getSupportedMediaCodecs(): types.RtpCodecCapability[] {
+    const { codecs = [] } = mediasoup.getSupportedRtpCapabilities();
+
+    return config.mediasoup.router.mediaCodecs.filter((codec) => {
+      const supported = codecs.some(
+        ({ mimeType }) => mimeType.toLowerCase() === codec.mimeType.toLowerCase()
+      );
+      if (!supported) {
+        console.warn(`Codec ${codec.mimeType} is not supported by mediasoup, skipped`);
+      }
+      return supported;
+    });
+  }
+
+  public async cleanup(): Promise<void> {
+    this.closing = true;
+    this.workers.forEach(({ worker }) => worker.close());
+    this.workers = [];
+  }
+
+  private getLeastLoadedWorker(exclude: types.Worker[]): types.Worker {
+    const candidates = this.workers.filter(
+      ({ worker }) => !exclude.includes(worker)
+    );
+    const [leastLoaded] = (candidates.length > 0 ? candidates : this.workers)
+      .slice()
+      .sort((a, b) => a.load - b.load);
+
+    if (!leastLoaded) {
+      throw new Error("No mediasoup worker available");
+    }
+    return leastLoaded.worker;
+  }
+
+  private async createWorker(): Promise<void> {
+    const worker = await mediasoup.createWorker({
+      logLevel: config.mediasoup.worker.logLevel,
+      logTags: config.mediasoup.worker.logTags as types.WorkerLogTag[],
+      rtcMinPort: config.mediasoup.worker.rtcMinPort,
+      rtcMaxPort: config.mediasoup.worker.rtcMaxPort,
+    });
+    const pooled: PooledWorker = { worker, load: 0 };
+
+    this.workers.push(pooled);
+    this.trackLoad(pooled);
+
+    worker.on("died", (error) => {
+      console.error(`MediaSoup worker ${worker.pid} has died:`, error);
+      this.workers = this.workers.filter((entry) => entry !== pooled);
+
+      if (!this.closing) {
+        this.createWorker().catch((error) => {
+          console.error("Failed to replace MediaSoup worker:", error);
+        });
+      }
+      this.emit("workerDied", worker);
+    });
+
+    console.info(`MediaSoup worker ${worker.pid} created`);
+  }
+
+  private trackLoad(pooled: PooledWorker): void {
+    pooled.worker.observer.on("newrouter", (router) => {
+      router.observer.on("newtransport", (transport) => {
+        transport.observer.on("newproducer", (producer) => {
+          pooled.load++;
+          producer.observer.once("close", () => pooled.load--);
+        });
+        transport.observer.on("newconsumer", (consumer) => {
+          pooled.load++;
+          consumer.observer.once("close", () => pooled.load--);
+        });
+      });
+    });
+  }
+}
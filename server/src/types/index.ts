@@ -2,11 +2,43 @@ import type { types } from "mediasoup";
 import type { ChildProcess } from "child_process";
 
 export interface Peer {
+  // Display name chosen when joining
+  name: string;
+  role: Role;
+  // User from the token; only the same user can resume the session
+  userId: string;
+  // Secret the peer's client resumes the session with; never sent to others
+  resumeToken: string;
+  // Current connection, null during the reconnection grace period
+  socketId: string | null;
+  // Kinds a host muted, which the peer may not unmute itself
+  mutedKinds: Set<types.MediaKind>;
   transports: Map<string, types.WebRtcTransport>;
   producers: Map<string, types.Producer>;
   consumers: Map<string, types.Consumer>;
 }
 
+export type Role = "host" | "publisher" | "viewer";
+
+export type RoleAction = "produce" | "consume" | "moderate";
+
+// Claims of the signed tokens clients connect and watch with
+export interface AuthClaims {
+  // User ID
+  sub: string;
+  // Room the token grants access to
+  room: string;
+  role: Role;
+  // Display name, replaces the one from the handshake query
+  name?: string;
+  // Issue and expiry time in seconds since the epoch
+  iat?: number;
+  exp?: number;
+}
+
+// What a producer captures; screen shares may carry system audio
+export type ProducerSource = "camera" | "microphone" | "screen";
+
 export interface SocketEventPayloads {
   createWebRtcTransport: {
     isSender: boolean;
@@ -15,10 +47,18 @@ export interface SocketEventPayloads {
     transportId: string;
     dtlsParameters: types.DtlsParameters;
   };
+  restartIce: {
+    transportId: string;
+  };
   produce: {
     transportId: string;
     kind: string;
     rtpParameters: types.RtpParameters;
+    // Defaults to camera or microphone by kind
+    appData?: { source?: ProducerSource };
+  };
+  closeProducer: {
+    producerId: string;
   };
   consume: {
     transportId: string;
@@ -28,13 +68,207 @@ export interface SocketEventPayloads {
   resume: {
     consumerId: string;
   };
+  pauseProducer: {
+    producerId: string;
+  };
+  resumeProducer: {
+    producerId: string;
+  };
+  setPreferredLayers: {
+    consumerId: string;
+    spatialLayer: number;
+    temporalLayer?: number;
+  };
+  setPriority: {
+    consumerId: string;
+    priority: number;
+  };
+  // Size of the tile the consumer is shown in, in device pixels
+  setConsumerTileSize: {
+    consumerId: string;
+    width: number;
+    height: number;
+  };
+  // Moderation, for hosts only
+  kickPeer: {
+    peerId: string;
+    reason?: string;
+  };
+  // Pauses the peer's producers of the kind, or all of them
+  mutePeer: {
+    peerId: string;
+    kind?: types.MediaKind;
+  };
+  // Lets the peer unmute the kind, or all kinds, itself again
+  unmutePeer: {
+    peerId: string;
+    kind?: types.MediaKind;
+  };
+  lockRoom: {
+    locked: boolean;
+  };
+  // null removes the limit
+  setPublisherLimit: {
+    limit: number | null;
+  };
+}
+
+export interface RoomSettings {
+  // Only hosts may join a locked room
+  locked: boolean;
+  // Peers that may publish at once, hosts not counted
+  publisherLimit: number | null;
+}
+
+export type AuditAction =
+  | "kick"
+  | "mute"
+  | "unmute"
+  | "lock"
+  | "unlock"
+  | "publisherLimit"
+  | "closeProducer"
+  | "pipeline";
+
+export interface AuditEntry {
+  time: string;
+  roomId: string;
+  action: AuditAction;
+  // Host that took the action, or the admin API
+  actor: {
+    peerId: string;
+    userId: string;
+    name: string;
+  };
+  // Peer the action was taken on
+  targetPeerId?: string;
+  details?: Record<string, unknown>;
 }
 
 export interface ProducerInfo {
   producerId: string;
-  socketId: string;
+  peerId: string;
+  name: string;
+  source: ProducerSource;
+}
+
+// Payloads of the lifecycle events sent to clients
+export interface PeerEvent {
+  peerId: string;
+}
+
+export interface ProducerEvent {
+  producerId: string;
+  peerId: string;
+  kind: types.MediaKind;
+  source: ProducerSource;
+}
+
+export interface ConsumerEvent {
+  consumerId: string;
+  producerId: string;
+  // Peer that owned the consumer
+  peerId: string;
+}
+
+export interface TransportStateEvent {
+  transportId: string;
+  // Peer that owns the transport
+  peerId: string;
+  iceState: types.IceState;
+  dtlsState: types.DtlsState;
+  // null without SCTP, i.e. without data channels
+  sctpState: types.SctpState | null;
+}
+
+export interface ConsumerLayersEvent extends ConsumerEvent {
+  // null while the consumer receives nothing, e.g. when paused
+  spatialLayer: number | null;
+  temporalLayer: number | null;
+}
+
+export interface PeerManagerEvents {
+  peerJoined: [event: PeerEvent];
+  peerLeft: [event: PeerEvent];
+  // Connection lost; the peer keeps its producers during the grace period
+  peerDisconnected: [event: PeerEvent];
+  peerReconnected: [event: PeerEvent];
+  producerClosed: [event: ProducerEvent];
+  producerPaused: [event: ProducerEvent];
+  producerResumed: [event: ProducerEvent];
+  consumerClosed: [event: ConsumerEvent];
+  consumerLayersChanged: [event: ConsumerLayersEvent];
+  transportStateChanged: [event: TransportStateEvent];
+}
+
+// A media server instance of the cluster
+export interface ClusterNode {
+  id: string;
+  // Base URL clients connect to for signaling and HLS
+  publicUrl: string;
+  // Base URL other nodes call the cascade API on
+  internalUrl: string;
+  // Connected peers over all rooms
+  peers: number;
+}
+
+/**
+ * Cluster state shared by all nodes: the live nodes and the node each room
+ * was created on, its origin. Entries expire unless they are refreshed.
+ */
+export interface RoomRegistry {
+  registerNode(node: ClusterNode, ttlMs: number): Promise<void>;
+  removeNode(nodeId: string): Promise<void>;
+  getNodes(): Promise<ClusterNode[]>;
+  // Makes the node the room's origin unless another node is; returns the
+  // origin's node ID. The origin refreshes its claim by claiming again.
+  claimRoom(roomId: string, nodeId: string, ttlMs: number): Promise<string>;
+  getRoomOrigin(roomId: string): Promise<string | null>;
+  releaseRoom(roomId: string, nodeId: string): Promise<void>;
+}
+
+// Address of a PipeTransport's RTP socket
+export interface PipeTuple {
+  ip: string;
+  port: number;
+}
+
+// A producer piped to another node, with the ID it has on every node
+export interface PipedProducerInfo {
+  producerId: string;
+  peerId: string;
+  name: string;
+  kind: types.MediaKind;
+  source: ProducerSource;
+  rtpParameters: types.RtpParameters;
+  paused: boolean;
+}
+
+// Producer of a peer on another node, received over a cascade link
+export interface RemoteProducer {
+  producer: types.Producer;
+  peerId: string;
+  name: string;
+  source: ProducerSource;
+  // Node of the link the producer came over
+  nodeId: string;
+}
+
+// Pipe between a room on this node and the same room on another node
+export interface CascadeLink {
+  nodeId: string;
+  // Base URL of the node's cascade API
+  url: string;
+  transport: types.PipeTransport;
+  // Our producers piped to the node, by producer ID
+  consumers: Map<string, types.Consumer>;
 }
 
+export type CascadeEventType =
+  | "producerClosed"
+  | "producerPaused"
+  | "producerResumed";
+
 export interface TransportInfo {
   id: string;
   iceParameters: types.IceParameters;
@@ -47,16 +281,187 @@ export interface ConsumerInfo {
   producerId: string;
   kind: types.MediaKind;
   rtpParameters: types.RtpParameters;
+  // Lets the client show the producer as muted right away
+  producerPaused: boolean;
+}
+
+// Views of the admin API, shaped like what clients receive
+export interface AdminTransportInfo extends Pick<TransportInfo, "id"> {
+  iceState: types.IceState;
+  dtlsState: types.DtlsState;
+}
+
+export interface AdminProducerInfo extends ProducerInfo {
+  kind: types.MediaKind;
+  paused: boolean;
+}
+
+export interface AdminConsumerInfo extends Omit<ConsumerInfo, "rtpParameters"> {
+  paused: boolean;
+}
+
+export interface AdminPeerInfo {
+  peerId: string;
+  name: string;
+  role: Role;
+  userId: string;
+  connected: boolean;
+  transports: AdminTransportInfo[];
+  producers: AdminProducerInfo[];
+  consumers: AdminConsumerInfo[];
+}
+
+export interface AdminRoomInfo {
+  id: string;
+  origin: boolean;
+  settings: RoomSettings;
+  peerCount: number;
+  pipeline: FFmpegStats;
+  // Seconds since FFmpeg started the last HLS segment
+  lastSegmentAge: number | null;
+}
+
+export interface AdminRoomDetails extends AdminRoomInfo {
+  peers: AdminPeerInfo[];
+}
+
+// One RTP stream of a producer, a simulcast layer or the only stream
+export interface AdminStreamStats {
+  producerId: string;
+  peerId: string;
+  kind: types.MediaKind;
+  ssrc: number;
+  rid: string | null;
+  // bit/s
+  bitrate: number;
+  packetsLost: number;
+  // Of the last report interval, 0 to 1
+  fractionLost: number;
+  // 0 (bad) to 10 (good), as computed by mediasoup
+  score: number;
 }
 
+export type AdminObjectType = "transport" | "producer" | "consumer";
+
+export interface AdminStats {
+  id: string;
+  type: AdminObjectType;
+  roomId: string;
+  stats: (
+    | types.WebRtcTransportStat
+    | types.PipeTransportStat
+    | types.ProducerStat
+    | types.ConsumerStat
+  )[];
+}
+
+export type PipelineAction = "start" | "stop" | "restart";
+
 export interface FFmpegManager {
   process: ChildProcess | null;
   start(): void;
   stop(): void;
   isRunning(): boolean;
+  getStats(): FFmpegStats;
+}
+
+// stopped: not running, e.g. without inputs; starting: spawned, no progress
+// yet; backoff: waiting to restart after a crash or hang
+export type PipelineState = "stopped" | "starting" | "running" | "backoff";
+
+export interface PipelineStateEvent {
+  state: PipelineState;
+  // Why FFmpeg is restarted, in backoff
+  reason?: string;
+}
+
+// Progress of an FFmpeg process, parsed from its stderr
+export interface FFmpegStats {
+  state: PipelineState;
+  running: boolean;
+  // Starts by the supervisor after a crash or hang
+  restarts: number;
+  // Exits and hangs the supervisor restarted FFmpeg after
+  crashes: number;
+  // Encoding speed relative to real time, e.g. 1 at 1x
+  speed: number | null;
+  fps: number | null;
+  // When the last HLS segment was opened for writing, in ms since the epoch
+  lastSegmentAt: number | null;
 }
 
-export interface RtpTransportConfig {
-  videoTransports: types.PlainTransport[];
-  audioTransports: types.PlainTransport[];
+// live: short sliding window, dvr: sliding window of `dvrWindowSeconds`,
+// event: EVENT playlist that keeps the whole session
+export type HlsPlaylistMode = "live" | "dvr" | "event";
+
+export interface HlsRendition {
+  // Names the variant playlist, e.g. stream_720p.m3u8
+  name: string;
+  width: number;
+  height: number;
+  // Video bitrate in kbit/s
+  videoBitrate: number;
+}
+
+export type RecordingType = "composite" | "producer";
+
+export type RecordingStatus = "recording" | "completed" | "failed";
+
+export interface RecordingMetadata {
+  id: string;
+  roomId: string;
+  type: RecordingType;
+  // Set for recordings of a single producer
+  producerId?: string;
+  peerId?: string;
+  kind?: types.MediaKind;
+  // File name inside the recording directory
+  file: string;
+  participants: string[];
+  startedAt: string;
+  endedAt: string | null;
+  status: RecordingStatus;
+}
+
+export type RestreamProtocol = "rtmp" | "srt";
+
+export type RestreamStatus =
+  | "starting"
+  | "live"
+  | "retrying"
+  | "stopped"
+  | "failed";
+
+export interface RestreamDestination {
+  id: string;
+  roomId: string;
+  protocol: RestreamProtocol;
+  // Destination URL with the stream key and passphrase masked
+  url: string;
+  status: RestreamStatus;
+  // Restarts since the destination last went live
+  retries: number;
+  lastError: string | null;
+  startedAt: string | null;
+}
+
+export interface RtpPortPair {
+  rtpPort: number;
+  rtcpPort: number;
+}
+
+export interface RtpStreamInput {
+  producerId: string;
+  peerId: string;
+  kind: types.MediaKind;
+  // Consumer sending the producer's RTP to FFmpeg
+  consumer: types.Consumer;
+  ports: RtpPortPair;
+  // Position of the stream in the composite; lower slots come first
+  slot: number;
+  // Paused video is shown as a card with the peer's name
+  name: string;
+  paused: boolean;
+  // A screen share switches the composite to the presentation layout
+  source: ProducerSource;
 } 
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Checks an `Authorization` header against `Bearer <secret>` in constant time.
+ */
+export function isBearerToken(
+  authorization: string | undefined,
+  secret: string
+): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(authorization ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
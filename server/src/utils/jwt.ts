@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+export type JwtPayload = Record<string, unknown>;
+
+const HEADER = { alg: "HS256", typ: "JWT" };
+
+/**
+ * Signs a compact JWT with HMAC-SHA256. Tokens can be checked by anyone
+ * holding the shared secret, with any JWT library.
+ */
+export function signJwt(payload: JwtPayload, secret: string): string {
+  const unsigned = [HEADER, payload]
+    .map((part) => Buffer.from(JSON.stringify(part)).toString("base64url"))
+    .join(".");
+
+  return `${unsigned}.${sign(unsigned, secret)}`;
+}
+
+/**
+ * Verifies the signature and the `exp` and `nbf` claims of an HS256 token
+ * and returns its payload. Throws for any other algorithm.
+ */
+export function verifyJwt(token: string, secret: string): JwtPayload {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    throw new Error("Malformed token");
+  }
+
+  const [encodedHeader, encodedPayload, signature] = parts;
+  const header = decodePart(encodedHeader);
+  if (header.alg !== HEADER.alg) {
+    throw new Error(`Unsupported token algorithm ${String(header.alg)}`);
+  }
+
+  const expected = Buffer.from(sign(`${encodedHeader}.${encodedPayload}`, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error("Invalid token signature");
+  }
+
+  const payload = decodePart(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp === "number" && now >= payload.exp) {
+    throw new Error("Token expired");
+  }
+  if (typeof payload.nbf === "number" && now < payload.nbf) {
+    throw new Error("Token not yet valid");
+  }
+
+  return payload;
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+function decodePart(part: string): JwtPayload {
+  try {
+    const decoded = JSON.parse(Buffer.from(part, "base64url").toString("utf8"));
+    if (decoded && typeof decoded === "object" && !Array.isArray(decoded)) {
+      return decoded;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error("Malformed token");
+}
@@ -0,0 +1,64 @@
+import type { types } from "mediasoup";
+import { SIMULCAST } from "../config/constants";
+
+/**
+ * Number of spatial and temporal layers a consumer can receive, from the
+ * scalability mode of its encoding (e.g. "L3T3" or "S3T3_KEY"). Consumers
+ * of single-layer producers have one of each.
+ */
+export function getLayerCounts(consumer: types.Consumer): {
+  spatialLayers: number;
+  temporalLayers: number;
+} {
+  const scalabilityMode =
+    consumer.rtpParameters.encodings?.[0]?.scalabilityMode;
+  const match = /^[LS](\d+)T(\d+)/.exec(scalabilityMode ?? "");
+
+  return {
+    spatialLayers: match ? Number(match[1]) : 1,
+    temporalLayers: match ? Number(match[2]) : 1,
+  };
+}
+
+/**
+ * Picks the lowest spatial layer that still fills a tile of the given
+ * height (in device pixels), with all temporal layers.
+ */
+export function selectLayersForTile(
+  consumer: types.Consumer,
+  tileHeight: number
+): types.ConsumerLayers {
+  const { spatialLayers, temporalLayers } = getLayerCounts(consumer);
+  const fittingLayer = SIMULCAST.LAYER_HEIGHTS.findIndex(
+    (layerHeight) => layerHeight >= tileHeight
+  );
+  const spatialLayer =
+    fittingLayer === -1
+      ? spatialLayers - 1
+      : Math.min(fittingLayer, spatialLayers - 1);
+
+  return { spatialLayer, temporalLayer: temporalLayers - 1 };
+}
+
+/**
+ * Larger tiles get a higher priority, so that they keep their quality when
+ * the bandwidth estimate does not cover every consumer.
+ */
+export function getPriorityForTile(
+  tileWidth: number,
+  tileHeight: number
+): number {
+  const priority = Math.round(
+    (tileWidth * tileHeight) / SIMULCAST.PRIORITY_TILE_AREA
+  );
+  return Math.min(Math.max(priority, 1), SIMULCAST.MAX_PRIORITY);
+}
+
+export function isLayerIndex(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+// Tile sizes come from the client's layout: fractional, or 0 while hidden
+export function isTileDimension(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
@@ -0,0 +1,24 @@
+/**
+ * Appends a query string to every URI of an HLS playlist: variant
+ * playlists, segments, and the URI attributes of tags such as EXT-X-MAP,
+ * EXT-X-PART and EXT-X-PRELOAD-HINT. Used to carry a token to every file a
+ * player requests.
+ */
+export function addQueryToPlaylist(playlist: string, query: string): string {
+  return playlist
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("#")) {
+        return line.replace(
+          /URI="([^"]*)"/g,
+          (_match, uri: string) => `URI="${addQuery(uri, query)}"`
+        );
+      }
+      return line.trim() ? addQuery(line.trim(), query) : line;
+    })
+    .join("\n");
+}
+
+function addQuery(uri: string, query: string): string {
+  return `${uri}${uri.includes("?") ? "&" : "?"}${query}`;
+}
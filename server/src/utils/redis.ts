@@ -0,0 +1,171 @@
+import net from "net";
+
+export type RedisReply = string | number | null | RedisReply[];
+
+interface PendingCommand {
+  resolve(reply: RedisReply): void;
+  reject(error: Error): void;
+}
+
+interface ParsedReply {
+  reply: RedisReply | Error;
+  // Offset right after the reply
+  end: number;
+}
+
+/**
+ * Minimal client of the Redis protocol (RESP2), enough for the room
+ * registry's commands. Works with any Redis-compatible server. Commands are
+ * pipelined on one connection, which is opened again after it dropped.
+ */
+export class RedisClient {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  /**
+   * @param url - redis://[user:password@]host[:port][/db]
+   */
+  constructor(private readonly url: string) {}
+
+  public command(...args: (string | number)[]): Promise<RedisReply> {
+    const socket = this.connect();
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  public close(): void {
+    this.socket?.end();
+    this.socket = null;
+  }
+
+  private connect(): net.Socket {
+    if (this.socket) return this.socket;
+
+    const { hostname, port, username, password, pathname } = new URL(this.url);
+    const socket = net.createConnection({
+      host: hostname || "127.0.0.1",
+      port: Number(port) || 6379,
+    });
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    socket.on("data", (data) => this.handleData(socket, data));
+    socket.on("error", (error) => {
+      console.error("Redis connection error:", error.message);
+    });
+    socket.on("close", () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      const pending = this.pending;
+      this.pending = [];
+      pending.forEach(({ reject }) => reject(new Error("Redis connection closed")));
+    });
+
+    // Sent ahead of the command that opened the connection
+    const setup: string[][] = [];
+    if (password) {
+      setup.push(
+        username
+          ? ["AUTH", decodeURIComponent(username), decodeURIComponent(password)]
+          : ["AUTH", decodeURIComponent(password)]
+      );
+    }
+    if (pathname.length > 1) {
+      setup.push(["SELECT", pathname.slice(1)]);
+    }
+    setup.forEach((args) => {
+      this.pending.push({
+        resolve: () => {},
+        reject: (error) => console.error(`Redis ${args[0]} failed:`, error.message),
+      });
+      socket.write(encodeCommand(args));
+    });
+
+    return socket;
+  }
+
+  private handleData(socket: net.Socket, data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    while (this.buffer.length > 0) {
+      let parsed: ParsedReply | null;
+      try {
+        parsed = parseReply(this.buffer, 0);
+      } catch (error) {
+        socket.destroy(error as Error);
+        return;
+      }
+      if (!parsed) return;
+
+      this.buffer = this.buffer.subarray(parsed.end);
+      const command = this.pending.shift();
+      if (parsed.reply instanceof Error) {
+        command?.reject(parsed.reply);
+      } else {
+        command?.resolve(parsed.reply);
+      }
+    }
+  }
+}
+
+function encodeCommand(args: (string | number)[]): string {
+  return (
+    `*${args.length}\r\n` +
+    args
+      .map(String)
+      .map((arg) => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`)
+      .join("")
+  );
+}
+
+/**
+ * Parses the reply at `offset`. Returns null while it is incomplete.
+ */
+function parseReply(buffer: Buffer, offset: number): ParsedReply | null {
+  const lineEnd = buffer.indexOf("\r\n", offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString("utf8", offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case "+":
+      return { reply: line, end: next };
+    case "-":
+      return { reply: new Error(line), end: next };
+    case ":":
+      return { reply: Number(line), end: next };
+    case "$": {
+      const length = Number(line);
+      if (length === -1) return { reply: null, end: next };
+      if (buffer.length < next + length + 2) return null;
+      return {
+        reply: buffer.toString("utf8", next, next + length),
+        end: next + length + 2,
+      };
+    }
+    case "*": {
+      const count = Number(line);
+      if (count === -1) return { reply: null, end: next };
+
+      const items: RedisReply[] = [];
+      let end = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, end);
+        if (!item) return null;
+        items.push(item.reply instanceof Error ? item.reply.message : item.reply);
+        end = item.end;
+      }
+      return { reply: items, end };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type ${JSON.stringify(type)}`);
+  }
+}
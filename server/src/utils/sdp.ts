@@ -0,0 +1,77 @@
+import type { types } from "mediasoup";
+import { config } from "../config";
+import type { RtpPortPair } from "../types";
+
+export interface SdpMediaStream {
+  kind: types.MediaKind;
+  ports: RtpPortPair;
+  rtpParameters: types.RtpParameters;
+}
+
+/**
+ * Builds an SDP description for FFmpeg to receive plain RTP streams from
+ * mediasoup. Payload types, clock rates, codec parameters and SSRCs are
+ * taken from the consumers' negotiated RTP parameters, so the file always
+ * matches what is actually sent. FFmpeg numbers its input streams in the
+ * order of the media sections.
+ */
+export function buildSdp(
+  streams: SdpMediaStream[],
+  sessionName: string = "Mediasoup HLS Stream"
+): string {
+  const { listenIp } = config.rtpPlayer;
+  const lines = [
+    "v=0",
+    `o=- 0 0 IN IP4 ${listenIp}`,
+    `s=${sessionName}`,
+    `c=IN IP4 ${listenIp}`,
+    "t=0 0",
+  ];
+
+  for (const stream of streams) {
+    lines.push(...buildMediaSection(stream));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function buildMediaSection({
+  kind,
+  ports,
+  rtpParameters,
+}: SdpMediaStream): string[] {
+  const codec = rtpParameters.codecs.find(
+    ({ mimeType }) => !mimeType.toLowerCase().endsWith("/rtx")
+  );
+
+  if (!codec) {
+    throw new Error(`No media codec in RTP parameters of ${kind} stream`);
+  }
+
+  const { payloadType, clockRate, channels } = codec;
+  const codecName = codec.mimeType.split("/")[1];
+  const encoding = codec.channels ? `/${channels}` : "";
+  const lines = [
+    `m=${kind} ${ports.rtpPort} RTP/AVP ${payloadType}`,
+    `a=rtpmap:${payloadType} ${codecName}/${clockRate}${encoding}`,
+  ];
+
+  const fmtp = Object.entries(codec.parameters ?? {})
+    .map(([key, value]) => `${key}=${value}`)
+    .join(";");
+  if (fmtp) {
+    lines.push(`a=fmtp:${payloadType} ${fmtp}`);
+  }
+
+  lines.push(`a=rtcp:${ports.rtcpPort}`);
+
+  const ssrc = rtpParameters.encodings?.[0]?.ssrc;
+  if (ssrc !== undefined) {
+    const cname = rtpParameters.rtcp?.cname;
+    lines.push(`a=ssrc:${ssrc}${cname ? ` cname:${cname}` : ""}`);
+  }
+
+  lines.push("a=sendonly");
+
+  return lines;
+}
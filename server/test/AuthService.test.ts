@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { config } from "../src/config";
+import { AuthService } from "../src/services/AuthService";
+import { signJwt, verifyJwt } from "../src/utils/jwt";
+
+const SECRET = "test-secret";
+
+describe("verifyJwt", () => {
+  it("returns the payload of a token signed with the secret", () => {
+    const token = signJwt({ sub: "alice" }, SECRET);
+    expect(verifyJwt(token, SECRET)).toEqual({ sub: "alice" });
+  });
+
+  it("rejects tokens signed with another secret", () => {
+    const token = signJwt({ sub: "alice" }, "other-secret");
+    expect(() => verifyJwt(token, SECRET)).toThrow("Invalid token signature");
+  });
+
+  it("rejects tokens with a changed payload", () => {
+    const [header, , signature] = signJwt({ sub: "alice" }, SECRET).split(".");
+    const payload = Buffer.from(JSON.stringify({ sub: "mallory" })).toString(
+      "base64url"
+    );
+    expect(() => verifyJwt(`${header}.${payload}.${signature}`, SECRET)).toThrow(
+      "Invalid token signature"
+    );
+  });
+
+  it("rejects unsigned tokens", () => {
+    const encode = (part: object) =>
+      Buffer.from(JSON.stringify(part)).toString("base64url");
+    const token = `${encode({ alg: "none", typ: "JWT" })}.${encode({ sub: "alice" })}.`;
+    expect(() => verifyJwt(token, SECRET)).toThrow("Unsupported token algorithm none");
+  });
+
+  it("rejects expired and not yet valid tokens", () => {
+    const now = Math.floor(Date.now() / 1000);
+    expect(() => verifyJwt(signJwt({ exp: now - 1 }, SECRET), SECRET)).toThrow(
+      "Token expired"
+    );
+    expect(() => verifyJwt(signJwt({ nbf: now + 60 }, SECRET), SECRET)).toThrow(
+      "Token not yet valid"
+    );
+  });
+
+  it("rejects malformed tokens", () => {
+    expect(() => verifyJwt("not-a-token", SECRET)).toThrow("Malformed token");
+    expect(() => verifyJwt("a.b.c", SECRET)).toThrow("Malformed token");
+  });
+});
+
+describe("AuthService", () => {
+  const { auth } = config;
+  const initial = { ...auth };
+
+  beforeEach(() => {
+    auth.secret = SECRET;
+  });
+
+  afterEach(() => {
+    Object.assign(auth, initial);
+  });
+
+  it("verifies the tokens it issues", () => {
+    const authService = new AuthService();
+    const token = authService.createToken({
+      sub: "alice",
+      room: "team",
+      role: "publisher",
+    });
+
+    expect(authService.verify(token)).toMatchObject({
+      sub: "alice",
+      room: "team",
+      role: "publisher",
+    });
+  });
+
+  it("rejects missing tokens and unknown roles", () => {
+    const authService = new AuthService();
+
+    expect(() => authService.verify(undefined)).toThrow("Missing token");
+    expect(() =>
+      authService.verify(signJwt({ sub: "alice", room: "team", role: "admin" }, SECRET))
+    ).toThrow("Invalid token claims");
+  });
+
+  it("only authorizes the token's room", () => {
+    const authService = new AuthService();
+    const token = authService.createToken({ sub: "alice", room: "team", role: "host" });
+
+    expect(authService.authorize(token, "team").role).toBe("host");
+    expect(() => authService.authorize(token, "other")).toThrow(
+      "Token is not valid for room other"
+    );
+  });
+
+  it("makes clients without a token publishers unless auth is disabled", () => {
+    auth.secret = undefined;
+    expect(new AuthService().getAnonymousRole()).toBe("publisher");
+
+    auth.disabled = true;
+    expect(new AuthService().getAnonymousRole()).toBe("host");
+  });
+});
@@ -0,0 +1,183 @@
+import type { types } from "mediasoup";
+import { afterEach, describe, expect, it } from "vitest";
+import { config } from "../src/config";
+import { FFmpegService, SEGMENT_PATTERN } from "../src/services/FFmpegService";
+import type { RtpStreamInput } from "../src/types";
+
+const { hls, composite } = config;
+const initialHls = { ...hls };
+const initialComposite = { ...composite };
+
+function createInput(
+  slot: number,
+  overrides: Partial<RtpStreamInput> = {}
+): RtpStreamInput {
+  const kind = overrides.kind ?? "video";
+
+  return {
+    producerId: `producer-${slot}`,
+    peerId: `peer-${slot}`,
+    kind,
+    consumer: {
+      rtpParameters: {
+        codecs: [{ mimeType: kind === "video" ? "video/VP8" : "audio/opus" }],
+      },
+    } as unknown as types.Consumer,
+    ports: { rtpPort: 50000 + slot * 2, rtcpPort: 50001 + slot * 2 },
+    slot,
+    name: `Peer ${slot}`,
+    paused: false,
+    source: kind === "video" ? "camera" : "microphone",
+    ...overrides,
+  };
+}
+
+// Inputs are set directly, as addInput would schedule a start
+function createService(inputs: RtpStreamInput[]): FFmpegService {
+  const service = new FFmpegService("main");
+  inputs.forEach((input) => service["inputs"].set(input.producerId, input));
+  return service;
+}
+
+function getFilterGraph(service: FFmpegService): string[] {
+  return service["buildFilterGraph"](service["getPassthroughStream"]()).split("; ");
+}
+
+afterEach(() => {
+  Object.assign(hls, initialHls);
+  Object.assign(composite, initialComposite);
+});
+
+describe("FFmpegService filter graph", () => {
+  it("composes the grid at the size of the top rendition", () => {
+    const service = createService([0, 1, 2, 3].map((slot) => createInput(slot)));
+    const filters = getFilterGraph(service);
+
+    expect(filters).toContain(
+      "[0:0]setpts=PTS-STARTPTS," +
+        "scale=960:540:force_original_aspect_ratio=decrease," +
+        "pad=960:540:(ow-iw)/2:(oh-ih)/2,setsar=1[v0]"
+    );
+    expect(filters).toContain(
+      "[v0][v1][v2][v3]xstack=inputs=4:layout=0_0|960_0|0_540|960_540:fill=black[v]"
+    );
+  });
+
+  it("shares the composite evenly between the rows and columns of the grid", () => {
+    const service = createService([0, 1, 2, 3, 4].map((slot) => createInput(slot)));
+    const filters = getFilterGraph(service);
+
+    // 3 columns and 2 rows, rounded down to even sizes
+    expect(filters).toContain(
+      "[v0][v1][v2][v3][v4]xstack=inputs=5:layout=0_0|640_0|1280_0|0_540|640_540:fill=black[v]"
+    );
+  });
+
+  it("fills the composite with a single camera", () => {
+    const service = createService([createInput(0)]);
+    const [video] = getFilterGraph(service);
+
+    expect(video).toBe(
+      "[0:0]setpts=PTS-STARTPTS," +
+        "scale=1920:1080:force_original_aspect_ratio=decrease," +
+        "pad=1920:1080:(ow-iw)/2:(oh-ih)/2,setsar=1[v]"
+    );
+  });
+
+  it("sends black video at the size of the top rendition without cameras", () => {
+    const service = createService([createInput(0, { kind: "audio" })]);
+    const [video] = getFilterGraph(service);
+
+    expect(video).toBe("color=c=black:s=1920x1080:r=30[v]");
+  });
+
+  it("scales the composite down into every rendition", () => {
+    const service = createService([createInput(0), createInput(1)]);
+    const filters = getFilterGraph(service);
+
+    expect(filters).toContain("[v]split=3[vsplit0][vsplit1][vsplit2]");
+    expect(filters).toContain(
+      "[vsplit0]scale=640:360:force_original_aspect_ratio=decrease," +
+        "pad=640:360:(ow-iw)/2:(oh-ih)/2,setsar=1[vout0]"
+    );
+  });
+
+  it("copies a single H.264 camera into the top rendition", () => {
+    const service = createService([
+      createInput(0, {
+        consumer: {
+          rtpParameters: { codecs: [{ mimeType: "video/H264" }] },
+        } as unknown as types.Consumer,
+      }),
+    ]);
+    const passthrough = service["getPassthroughStream"]();
+    const args = service["buildFFmpegArgs"](passthrough);
+
+    expect(passthrough?.input.producerId).toBe("producer-0");
+    expect(getFilterGraph(service)).toContain("[v]split=2[vsplit0][vsplit1]");
+    expect(args).toEqual(expect.arrayContaining(["-c:v:2", "copy"]));
+  });
+});
+
+describe("FFmpegService arguments", () => {
+  it("writes MPEG-TS segments in regular HLS", () => {
+    const args = createService([createInput(0)])["buildFFmpegArgs"]();
+
+    expect(args).toEqual(
+      expect.arrayContaining(["-hls_time", "2", "-hls_segment_type", "mpegts"])
+    );
+    expect(args[args.indexOf("-hls_flags") + 1]).toBe(
+      "append_list+omit_endlist+discont_start+program_date_time"
+    );
+    expect(args[args.indexOf("-var_stream_map") + 1]).toBe(
+      "v:0,a:0,name:360p v:1,a:1,name:720p v:2,a:2,name:1080p"
+    );
+  });
+
+  it("writes fMP4 parts through temporary files in low-latency HLS", () => {
+    hls.lowLatency = true;
+    const args = createService([createInput(0)])["buildFFmpegArgs"]();
+
+    expect(args).toEqual(
+      expect.arrayContaining(["-hls_time", "0.5", "-hls_segment_type", "fmp4"])
+    );
+    expect(args[args.indexOf("-hls_flags") + 1]).toContain(
+      "temp_file+independent_segments"
+    );
+  });
+
+  it("keeps a seekable window in dvr mode", () => {
+    hls.mode = "dvr";
+    hls.dvrWindowSeconds = 60;
+    const args = createService([createInput(0)])["buildFFmpegArgs"]();
+
+    expect(args[args.indexOf("-hls_list_size") + 1]).toBe("30");
+    expect(args[args.indexOf("-hls_flags") + 1]).toContain("delete_segments");
+  });
+});
+
+describe("SEGMENT_PATTERN", () => {
+  it("matches MPEG-TS segments of live HLS", () => {
+    expect(
+      SEGMENT_PATTERN.test(
+        "[hls @ 0x5581f2c4e6c0] Opening '/srv/live/main/stream_720p_12.ts' for writing"
+      )
+    ).toBe(true);
+  });
+
+  it("matches the temporary fMP4 parts of low-latency HLS", () => {
+    expect(
+      SEGMENT_PATTERN.test(
+        "[hls @ 0x5581f2c4e6c0] Opening '/srv/live/main/stream_720p_12.m4s.tmp' for writing"
+      )
+    ).toBe(true);
+  });
+
+  it("ignores playlists", () => {
+    expect(
+      SEGMENT_PATTERN.test(
+        "[hls @ 0x5581f2c4e6c0] Opening '/srv/live/main/stream_720p.m3u8.tmp' for writing"
+      )
+    ).toBe(false);
+  });
+});
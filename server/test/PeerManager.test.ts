@@ -0,0 +1,129 @@
+import { EventEmitter } from "events";
+import type { types } from "mediasoup";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PeerManager } from "../src/services/PeerManager";
+
+const GRACE_PERIOD = 15000;
+
+function createTransport(id: string): types.WebRtcTransport {
+  return Object.assign(new EventEmitter(), {
+    id,
+    close: vi.fn(),
+  }) as unknown as types.WebRtcTransport;
+}
+
+function createProducer(id: string, kind: types.MediaKind): types.Producer {
+  return Object.assign(new EventEmitter(), {
+    id,
+    kind,
+    observer: new EventEmitter(),
+    close: vi.fn(),
+  }) as unknown as types.Producer;
+}
+
+describe("PeerManager", () => {
+  let peerManager: PeerManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    peerManager = new PeerManager();
+    peerManager.addPeer("peer-1", "socket-1", "Alice", "publisher", "alice");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps a disconnected peer for the grace period", () => {
+    const disconnected = vi.fn();
+    peerManager.on("peerDisconnected", disconnected);
+
+    peerManager.disconnectPeer("peer-1", GRACE_PERIOD);
+    vi.advanceTimersByTime(GRACE_PERIOD - 1);
+
+    expect(peerManager.getPeer("peer-1")?.socketId).toBeNull();
+    expect(disconnected).toHaveBeenCalledWith({ peerId: "peer-1" });
+  });
+
+  it("removes the peer and closes its producers when the grace period ends", () => {
+    const producer = createProducer("producer-1", "audio");
+    peerManager.addProducer("peer-1", producer, "microphone");
+    const left = vi.fn();
+    const producerClosed = vi.fn();
+    peerManager.on("peerLeft", left);
+    peerManager.on("producerClosed", producerClosed);
+
+    peerManager.disconnectPeer("peer-1", GRACE_PERIOD);
+    vi.advanceTimersByTime(GRACE_PERIOD);
+
+    expect(peerManager.getPeer("peer-1")).toBeUndefined();
+    expect(producer.close).toHaveBeenCalled();
+    expect(producerClosed).toHaveBeenCalledWith({
+      producerId: "producer-1",
+      peerId: "peer-1",
+      kind: "audio",
+      source: "microphone",
+    });
+    expect(left).toHaveBeenCalledWith({ peerId: "peer-1" });
+  });
+
+  it("keeps a peer that reconnects within the grace period", () => {
+    const reconnected = vi.fn();
+    peerManager.on("peerReconnected", reconnected);
+
+    peerManager.disconnectPeer("peer-1", GRACE_PERIOD);
+    vi.advanceTimersByTime(GRACE_PERIOD / 2);
+    peerManager.reconnectPeer("peer-1", "socket-2");
+    vi.advanceTimersByTime(GRACE_PERIOD);
+
+    expect(peerManager.getPeer("peer-1")?.socketId).toBe("socket-2");
+    expect(reconnected).toHaveBeenCalledWith({ peerId: "peer-1" });
+  });
+
+  it("does not restart the grace period of a peer that is already disconnected", () => {
+    peerManager.disconnectPeer("peer-1", GRACE_PERIOD);
+    vi.advanceTimersByTime(GRACE_PERIOD / 2);
+    peerManager.disconnectPeer("peer-1", GRACE_PERIOD);
+    vi.advanceTimersByTime(GRACE_PERIOD / 2);
+
+    expect(peerManager.getPeer("peer-1")).toBeUndefined();
+  });
+
+  it("refuses to reconnect a peer that was removed", () => {
+    peerManager.disconnectPeer("peer-1", GRACE_PERIOD);
+    vi.advanceTimersByTime(GRACE_PERIOD);
+
+    expect(() => peerManager.reconnectPeer("peer-1", "socket-2")).toThrow(
+      "Peer peer-1 not found"
+    );
+  });
+
+  it("only accepts the resume token issued to the peer", () => {
+    const token = peerManager.addPeer("peer-2", "socket-2", "Bob", "viewer", "bob");
+
+    expect(peerManager.isResumeToken("peer-2", token)).toBe(true);
+    expect(peerManager.isResumeToken("peer-1", token)).toBe(false);
+    expect(peerManager.isResumeToken("peer-2", `${token}x`)).toBe(false);
+    expect(peerManager.isResumeToken("peer-2", undefined)).toBe(false);
+    expect(peerManager.isResumeToken("peer-3", token)).toBe(false);
+  });
+
+  it("closes the media of a peer but keeps the peer and its mutes", () => {
+    const transport = createTransport("transport-1");
+    const producer = createProducer("producer-1", "video");
+    peerManager.addTransport("peer-1", transport);
+    peerManager.addProducer("peer-1", producer, "camera");
+    peerManager.getPeer("peer-1")!.mutedKinds.add("video");
+
+    peerManager.closePeerMedia("peer-1");
+
+    const peer = peerManager.getPeer("peer-1");
+    expect(transport.close).toHaveBeenCalled();
+    expect(producer.close).toHaveBeenCalled();
+    expect(peer?.transports.size).toBe(0);
+    expect(peer?.producers.size).toBe(0);
+    expect(peer?.mutedKinds.has("video")).toBe(true);
+  });
+});
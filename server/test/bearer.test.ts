@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { isBearerToken } from "../src/utils/bearer";
+
+describe("isBearerToken", () => {
+  it("accepts the secret as a bearer token", () => {
+    expect(isBearerToken("Bearer s3cret", "s3cret")).toBe(true);
+  });
+
+  it("rejects other secrets, including ones of the same length", () => {
+    expect(isBearerToken("Bearer s3cres", "s3cret")).toBe(false);
+    expect(isBearerToken("Bearer s3cret-and-more", "s3cret")).toBe(false);
+  });
+
+  it("rejects the secret without the Bearer scheme", () => {
+    expect(isBearerToken("s3cret", "s3cret")).toBe(false);
+    expect(isBearerToken("Basic s3cret", "s3cret")).toBe(false);
+  });
+
+  it("rejects a missing header", () => {
+    expect(isBearerToken(undefined, "s3cret")).toBe(false);
+    expect(isBearerToken("", "s3cret")).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { addQueryToPlaylist } from "../src/utils/playlist";
+
+describe("addQueryToPlaylist", () => {
+  it("adds the query to variant playlists of a master playlist", () => {
+    const playlist = [
+      "#EXTM3U",
+      "#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360",
+      "stream_360p.m3u8",
+      "#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720",
+      "stream_720p.m3u8",
+      "",
+    ].join("\n");
+
+    expect(addQueryToPlaylist(playlist, "token=abc")).toBe(
+      [
+        "#EXTM3U",
+        "#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360",
+        "stream_360p.m3u8?token=abc",
+        "#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720",
+        "stream_720p.m3u8?token=abc",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("adds the query to segments and the URI attributes of tags", () => {
+    const playlist = [
+      "#EXTM3U",
+      '#EXT-X-MAP:URI="init_720p.mp4"',
+      "#EXTINF:2.000,",
+      "stream_720p_1.m4s",
+      '#EXT-X-PART:DURATION=0.5,URI="part_720p_2_0.m4s",INDEPENDENT=YES',
+      '#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part_720p_2_1.m4s"',
+    ].join("\n");
+
+    expect(addQueryToPlaylist(playlist, "token=abc")).toBe(
+      [
+        "#EXTM3U",
+        '#EXT-X-MAP:URI="init_720p.mp4?token=abc"',
+        "#EXTINF:2.000,",
+        "stream_720p_1.m4s?token=abc",
+        '#EXT-X-PART:DURATION=0.5,URI="part_720p_2_0.m4s?token=abc",INDEPENDENT=YES',
+        '#EXT-X-PRELOAD-HINT:TYPE=PART,URI="part_720p_2_1.m4s?token=abc"',
+      ].join("\n")
+    );
+  });
+
+  it("appends to URIs that already have a query", () => {
+    const playlist = "#EXTM3U\nstream_720p.m3u8?_HLS_msn=3\n";
+
+    expect(addQueryToPlaylist(playlist, "token=abc")).toBe(
+      "#EXTM3U\nstream_720p.m3u8?_HLS_msn=3&token=abc\n"
+    );
+  });
+
+  it("leaves tags without URIs alone", () => {
+    const playlist = "#EXTM3U\n#EXT-X-TARGETDURATION:2\n#EXT-X-ENDLIST";
+
+    expect(addQueryToPlaylist(playlist, "token=abc")).toBe(playlist);
+  });
+});